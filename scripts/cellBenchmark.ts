@@ -0,0 +1,164 @@
+// Benchmark of the chunked modified-cell store against the previous flat map
+// keyed by "i,j" strings, with 100k modified cells.
+//
+//   deno task bench:cells
+
+import {
+  cellKey,
+  CellMemento,
+  type ChunkStorage,
+  ModifiedCells,
+  type StoredChunk,
+} from "../src/gameEngine.ts";
+
+const MODIFIED_CELLS = 100_000;
+// Modified cells are scattered over a square of this many cells per side
+const WORLD_CELLS = 2_000;
+// A gameplay view of cells, looked up once per redraw
+const VIEW_CELLS = 64;
+const REDRAWS = 100;
+const ITERATIONS = 5;
+// Memory limit for the eviction run
+const MAX_LOADED_CHUNKS = 256;
+
+interface BenchmarkResult {
+  operation: string;
+  approach: string;
+  "mean ms": number;
+  "best ms": number;
+}
+
+// Same cells on every run
+function scatteredCells(): { i: number; j: number }[] {
+  // xorshift32
+  let state = 1;
+  const next = () => {
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    return (state >>> 0) % WORLD_CELLS;
+  };
+  return Array.from({ length: MODIFIED_CELLS }, () => ({
+    i: next() - WORLD_CELLS / 2,
+    j: next() - WORLD_CELLS / 2,
+  }));
+}
+
+function measure(
+  operation: string,
+  approach: string,
+  run: () => void,
+): BenchmarkResult {
+  const times: number[] = [];
+  for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+    const start = performance.now();
+    run();
+    times.push(performance.now() - start);
+  }
+  return {
+    operation,
+    approach,
+    "mean ms": times.reduce((sum, time) => sum + time, 0) / times.length,
+    "best ms": Math.min(...times),
+  };
+}
+
+// Chunk storage kept in a map, standing in for IndexedDB
+class MemoryChunkStorage implements ChunkStorage {
+  chunks = new Map<number, StoredChunk>();
+
+  putChunk(key: number, cells: StoredChunk): Promise<void> {
+    this.chunks.set(key, cells);
+    return Promise.resolve();
+  }
+
+  getChunk(key: number): Promise<StoredChunk> {
+    return Promise.resolve(this.chunks.get(key) ?? []);
+  }
+}
+
+const cells = scatteredCells();
+const token = { value: 2, element: "neutral" as const };
+const view = {
+  iMin: -VIEW_CELLS / 2,
+  iMax: VIEW_CELLS / 2 - 1,
+  jMin: -VIEW_CELLS / 2,
+  jMax: VIEW_CELLS / 2 - 1,
+};
+
+let flat = new Map<string, CellMemento>();
+let chunked = new ModifiedCells();
+const results: BenchmarkResult[] = [
+  measure("save 100k cells", "flat map", () => {
+    flat = new Map();
+    for (const { i, j } of cells) {
+      flat.set(cellKey(i, j), new CellMemento({ token }, 0));
+    }
+  }),
+  measure("save 100k cells", "chunks", () => {
+    chunked = new ModifiedCells();
+    for (const { i, j } of cells) {
+      chunked.save(i, j, { token }, 0);
+    }
+  }),
+  measure(`look up a ${VIEW_CELLS}² view ${REDRAWS}×`, "flat map", () => {
+    for (let redraw = 0; redraw < REDRAWS; redraw++) {
+      for (let i = view.iMin; i <= view.iMax; i++) {
+        for (let j = view.jMin; j <= view.jMax; j++) {
+          flat.get(cellKey(i, j));
+        }
+      }
+    }
+  }),
+  measure(`look up a ${VIEW_CELLS}² view ${REDRAWS}×`, "chunks", () => {
+    for (let redraw = 0; redraw < REDRAWS; redraw++) {
+      for (let i = view.iMin; i <= view.iMax; i++) {
+        for (let j = view.jMin; j <= view.jMax; j++) {
+          chunked.get(i, j);
+        }
+      }
+    }
+  }),
+  measure(`modified cells in a ${VIEW_CELLS}² view`, "flat map", () => {
+    Array.from(flat.keys()).filter((id) => {
+      const [i, j] = id.split(",").map(Number);
+      return view.iMin <= i && i <= view.iMax && view.jMin <= j &&
+        j <= view.jMax;
+    });
+  }),
+  measure(`modified cells in a ${VIEW_CELLS}² view`, "chunks", () => {
+    chunked.inRange(view);
+  }),
+  measure("serialize", "flat map", () => {
+    Array.from(flat.entries(), ([id, m]) => [id, {
+      token: m.token && { ...m.token },
+      modifiedAt: m.modifiedAt,
+    }]);
+  }),
+  measure("serialize", "chunks", () => {
+    chunked.toSerializable();
+  }),
+];
+console.table(results);
+
+// With storage, memory stays at the chunk limit however many cells change
+const storage = new MemoryChunkStorage();
+const limited = new ModifiedCells();
+limited.setStorage(storage, MAX_LOADED_CHUNKS);
+const start = performance.now();
+for (const { i, j } of cells) {
+  limited.save(i, j, { token }, 0);
+}
+// Chunks dropped earlier load back to merge with cells saved into them
+await new Promise((resolve) => setTimeout(resolve));
+console.log(
+  `Saved ${MODIFIED_CELLS} cells with a ${MAX_LOADED_CHUNKS}-chunk limit in ${
+    (performance.now() - start).toFixed(1)
+  } ms: ${limited.loadedChunks} chunks (${limited.size} cells) in memory, ${storage.chunks.size} stored`,
+);
+await limited.withAllLoaded(() => {
+  console.log(
+    `Loaded back for export: ${limited.toSerializable().length} cells`,
+  );
+});
+console.log(`Evicted again: ${limited.loadedChunks} chunks in memory`);
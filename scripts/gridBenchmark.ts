@@ -0,0 +1,91 @@
+// In-browser benchmark comparing the canvas grid layer with the previous
+// approach of one Leaflet polygon plus one divIcon marker per cell.
+// Open the game with `?benchmark` to run it; results go to the console.
+
+// @deno-types="npm:@types/leaflet"
+import leaflet from "leaflet";
+
+import type { CanvasGridLayer } from "../src/canvasGridLayer.ts";
+import type { GameEngine } from "../src/gameEngine.ts";
+
+const ITERATIONS = 5;
+
+interface BenchmarkResult {
+  approach: string;
+  cells: number;
+  "mean ms": number;
+  "best ms": number;
+}
+
+// Build and tear down per-cell layers for the view, like each old moveend
+function renderWithLayers(map: leaflet.Map, engine: GameEngine): number {
+  const bounds = map.getBounds();
+  const range = engine.cellsInBounds(
+    bounds.getSouthWest(),
+    bounds.getNorthEast(),
+  );
+  const layers: leaflet.Layer[] = [];
+
+  for (let i = range.iMin; i <= range.iMax; i++) {
+    for (let j = range.jMin; j <= range.jMax; j++) {
+      layers.push(leaflet.polygon(engine.getCellPolygon(i, j)).addTo(map));
+
+      const cell = engine.getCell(i, j);
+      if (cell.token) {
+        const icon = leaflet.divIcon({
+          className: "token-icon",
+          html: `${cell.token.value}`,
+          iconSize: [28, 28],
+          iconAnchor: [14, 14],
+        });
+        layers.push(
+          leaflet.marker(engine.getCellCenter(i, j), {
+            icon,
+            interactive: false,
+          }).addTo(map),
+        );
+      }
+    }
+  }
+
+  // Force layout so the DOM cost is included in the measurement
+  void map.getContainer().offsetHeight;
+  for (const layer of layers) {
+    map.removeLayer(layer);
+  }
+  return (range.iMax - range.iMin + 1) * (range.jMax - range.jMin + 1);
+}
+
+function measure(
+  approach: string,
+  run: () => number,
+): BenchmarkResult {
+  const times: number[] = [];
+  let cells = 0;
+  for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+    const start = performance.now();
+    cells = run();
+    times.push(performance.now() - start);
+  }
+  return {
+    approach,
+    cells,
+    "mean ms": times.reduce((sum, time) => sum + time, 0) / times.length,
+    "best ms": Math.min(...times),
+  };
+}
+
+export function runGridBenchmark(
+  map: leaflet.Map,
+  engine: GameEngine,
+  gridLayer: CanvasGridLayer,
+) {
+  const results = [
+    measure("leaflet layers per cell", () => renderWithLayers(map, engine)),
+    measure("canvas grid layer", () => {
+      gridLayer.redraw();
+      return gridLayer.drawnCellCount;
+    }),
+  ];
+  console.table(results);
+}
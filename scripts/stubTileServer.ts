@@ -0,0 +1,36 @@
+// Stub map tile server for testing offline tile caching without hitting
+// OpenStreetMap. Every tile is a generated SVG labeled with its coordinates.
+//
+//   deno task tiles
+//
+// then open the game with `?tiles=http://localhost:8081/{z}/{x}/{y}.png`.
+// Stop the server (or go offline in dev tools) and tiles near where the
+// player has been keep showing from the service worker's cache.
+
+const PORT = 8081;
+const TILE_PATH = /^\/(\d+)\/(\d+)\/(\d+)\.png$/;
+
+function tileSVG(z: string, x: string, y: string): string {
+  // Checkerboard shading so neighbouring tiles are easy to tell apart
+  const fill = (Number(x) + Number(y)) % 2 === 0 ? "#e9ecef" : "#dee2e6";
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="256" height="256">
+  <rect width="256" height="256" fill="${fill}" stroke="#adb5bd"/>
+  <text x="128" y="128" font-family="monospace" font-size="16" fill="#495057" text-anchor="middle">${z}/${x}/${y}</text>
+</svg>`;
+}
+
+Deno.serve({ port: PORT }, (request) => {
+  const match = new URL(request.url).pathname.match(TILE_PATH);
+  if (!match) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  const [, z, x, y] = match;
+  console.log(`tile ${z}/${x}/${y}`);
+  return new Response(tileSVG(z, x, y), {
+    headers: {
+      "content-type": "image/svg+xml",
+      "access-control-allow-origin": "*",
+    },
+  });
+});
@@ -0,0 +1,153 @@
+// Reference sync server for shared worlds. Keeps every world in memory:
+// the changed cells with their versions and the connected players.
+//
+//   deno task sync
+//
+// then use Join Server in the game (or open it with
+// `?sync=ws://localhost:8787`). Players with the same world seed and rules
+// share cells and see each other on the map.
+
+import {
+  type CellRecord,
+  type ClientMessage,
+  type PlayerRecord,
+  type ServerMessage,
+  SYNC_PROTOCOL_VERSION,
+} from "../src/syncProtocol.ts";
+
+const PORT = 8787;
+
+interface World {
+  cells: Map<string, CellRecord>;
+  players: Map<WebSocket, PlayerRecord>;
+}
+
+const worlds = new Map<string, World>();
+
+function send(socket: WebSocket, message: ServerMessage) {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+function broadcast(world: World, message: ServerMessage) {
+  for (const socket of world.players.keys()) {
+    send(socket, message);
+  }
+}
+
+function isLatLng(value: unknown): value is { lat: number; lng: number } {
+  const position = value as { lat?: unknown; lng?: unknown } | null;
+  return typeof position?.lat === "number" &&
+    typeof position?.lng === "number";
+}
+
+// Shallow checks only; clients validate the cells they receive
+function isClientMessage(value: unknown): value is ClientMessage {
+  const message = value as Record<string, unknown> | null;
+  switch (message?.type) {
+    case "hello":
+      return typeof message.world === "string" &&
+        typeof message.playerID === "string" &&
+        typeof message.name === "string";
+    case "position":
+      return isLatLng(message.position);
+    case "cell":
+      return typeof message.cellID === "string" &&
+        Number.isInteger(message.baseVersion) &&
+        typeof message.memento === "object" && message.memento !== null;
+    default:
+      return false;
+  }
+}
+
+function handleSocket(socket: WebSocket) {
+  let world: World | null = null;
+  let player: PlayerRecord | null = null;
+
+  socket.addEventListener("message", (event) => {
+    let message: unknown;
+    try {
+      message = JSON.parse(event.data);
+    } catch {
+      send(socket, { type: "error", message: "Messages must be JSON" });
+      return;
+    }
+    if (!isClientMessage(message)) {
+      send(socket, { type: "error", message: "Unknown message" });
+      return;
+    }
+
+    if (message.type === "hello") {
+      if (message.protocol !== SYNC_PROTOCOL_VERSION) {
+        send(socket, {
+          type: "error",
+          message: `Unsupported protocol ${message.protocol}`,
+        });
+        socket.close();
+        return;
+      }
+      if (world) return;
+
+      world = worlds.get(message.world) ??
+        { cells: new Map(), players: new Map() };
+      worlds.set(message.world, world);
+      player = {
+        playerID: message.playerID,
+        name: message.name.slice(0, 40),
+        position: null,
+      };
+      send(socket, {
+        type: "welcome",
+        cells: [...world.cells.values()],
+        players: [...world.players.values()],
+      });
+      world.players.set(socket, player);
+      broadcast(world, { type: "player", player });
+      console.log(`${player.name} joined ${message.world}`);
+      return;
+    }
+
+    if (!world || !player) {
+      send(socket, { type: "error", message: "Say hello first" });
+      return;
+    }
+
+    if (message.type === "position") {
+      player.position = message.position;
+      broadcast(world, { type: "player", player });
+      return;
+    }
+
+    // A change applies only on top of the cell's current version; the first
+    // change to a cell always applies
+    const current = world.cells.get(message.cellID);
+    if (current && message.baseVersion !== current.version) {
+      send(socket, { type: "rejected", cell: current });
+      return;
+    }
+    const cell: CellRecord = {
+      cellID: message.cellID,
+      version: (current?.version ?? 0) + 1,
+      memento: message.memento,
+    };
+    world.cells.set(cell.cellID, cell);
+    broadcast(world, { type: "cell", playerID: player.playerID, cell });
+  });
+
+  socket.addEventListener("close", () => {
+    if (!world || !player) return;
+    world.players.delete(socket);
+    broadcast(world, { type: "left", playerID: player.playerID });
+    console.log(`${player.name} left`);
+  });
+}
+
+Deno.serve({ port: PORT }, (request) => {
+  if (request.headers.get("upgrade") !== "websocket") {
+    return new Response("World of Bits sync server", { status: 426 });
+  }
+  const { socket, response } = Deno.upgradeWebSocket(request);
+  handleSocket(socket);
+  return response;
+});
@@ -0,0 +1,68 @@
+// Achievements unlocked by game statistics. Some are victory goals: reaching
+// any one of them wins the game.
+
+import type { GameRules } from "./gameEngine.ts";
+import type { StatsTracker } from "./stats.ts";
+
+export interface Achievement {
+  id: string;
+  name: string;
+  description: string;
+  goal: boolean;
+  isUnlocked(stats: StatsTracker, rules: GameRules): boolean;
+}
+
+export const ACHIEVEMENTS: Achievement[] = [
+  {
+    id: "first-find",
+    name: "First Find",
+    description: "Pick up your first token.",
+    goal: false,
+    isUnlocked: (stats) => stats.tokensPickedUp >= 1,
+  },
+  {
+    id: "apprentice",
+    name: "Apprentice",
+    description: "Craft your first token.",
+    goal: false,
+    isUnlocked: (stats) => stats.craftsDone >= 1,
+  },
+  {
+    id: "artisan",
+    name: "Artisan",
+    description: "Craft 25 tokens.",
+    goal: false,
+    isUnlocked: (stats) => stats.craftsDone >= 25,
+  },
+  {
+    id: "stroll",
+    name: "Out for a Stroll",
+    description: "Walk 1 km.",
+    goal: false,
+    isUnlocked: (stats) => stats.distanceMeters >= 1000,
+  },
+  {
+    id: "master-crafter",
+    name: "Master Crafter",
+    description: "Craft a token worth the victory threshold or more.",
+    goal: true,
+    isUnlocked: (stats, rules) =>
+      stats.highestCraftedValue >= rules.victoryThreshold,
+  },
+  {
+    id: "elementalist",
+    name: "Elementalist",
+    description: "Craft a fire, water, earth and air token.",
+    goal: true,
+    isUnlocked: (stats) =>
+      stats.hasCrafted("fire") && stats.hasCrafted("water") &&
+      stats.hasCrafted("earth") && stats.hasCrafted("air"),
+  },
+  {
+    id: "explorer",
+    name: "Explorer",
+    description: "Visit 500 different cells.",
+    goal: true,
+    isUnlocked: (stats) => stats.cellsVisited >= 500,
+  },
+];
@@ -0,0 +1,368 @@
+// Canvas layer that draws the whole cell grid and its tokens in one pass,
+// instead of one Leaflet rectangle and marker per cell.
+
+// @deno-types="npm:@types/leaflet"
+import leaflet from "leaflet";
+
+import type { CellPosition } from "./cellCursor.ts";
+import type { CellRange } from "./chunkedGrid.ts";
+import { type Element, tokenLabel } from "./crafting.ts";
+import type { GameEngine, LatLng } from "./gameEngine.ts";
+
+// Extra canvas area around the view, as a fraction of the map size, so short
+// drags do not reveal undrawn space before the next redraw
+const CANVAS_PADDING = 0.5;
+
+// Cells sampled per side of a density block when zoomed out
+const DENSITY_SAMPLES_PER_SIDE = 4;
+
+const CELL_FILL = "rgba(51, 136, 255, 0.2)";
+const CELL_STROKE = "#3388ff";
+const OUT_OF_RANGE_FILL = "rgba(0, 0, 0, 0.3)";
+// Cells the player has not seen yet
+const FOG_FILL = "rgba(60, 64, 72, 0.85)";
+const TOKEN_RADIUS = 14;
+// Token fill by element; keep in sync with the .token-<element> styles
+export const TOKEN_FILLS: Record<Element, string> = {
+  neutral: "#2b7bb9",
+  fire: "#d9480f",
+  water: "#0b7285",
+  earth: "#5c940d",
+  air: "#862e9c",
+};
+const TOKEN_STROKE = "#222";
+const TOKEN_TEXT = "#fff";
+const DENSITY_STROKE = "rgba(51, 136, 255, 0.4)";
+// High-contrast tokens: black with a white ring and element letters
+const CONTRAST_TOKEN_FILL = "#000";
+const CONTRAST_TOKEN_STROKE = "#fff";
+// Keyboard cursor: a dark and a light outline so it shows on any cell
+const CURSOR_OUTER = "#000";
+const CURSOR_INNER = "#ffd43b";
+
+export interface CanvasGridLayerOptions {
+  // Zoom level at and above which individual cells and tokens are drawn;
+  // below it, token density is aggregated into blocks
+  detailZoom: number;
+}
+
+export class CanvasGridLayer extends leaflet.Layer {
+  private canvas = document.createElement("canvas");
+  private context = this.canvas.getContext("2d")!;
+  private map: leaflet.Map | null = null;
+
+  // Layer point of the canvas's top-left corner
+  private topLeft = leaflet.point(0, 0);
+  // Cells drawn individually; null while zoomed out to the density view
+  private range: CellRange | null = null;
+  private clickCallback: ((i: number, j: number) => void) | null = null;
+  private cursor: CellPosition | null = null;
+  private highContrast = false;
+  private fog = false;
+
+  constructor(
+    private engine: GameEngine,
+    private gridOptions: CanvasGridLayerOptions,
+  ) {
+    super();
+    this.canvas.className = "grid-canvas leaflet-zoom-hide";
+  }
+
+  override onAdd(map: leaflet.Map): this {
+    this.map = map;
+    this.getPane()!.appendChild(this.canvas);
+    this.redraw();
+    return this;
+  }
+
+  override onRemove(): this {
+    this.canvas.remove();
+    this.releaseCells(null);
+    this.range = null;
+    this.map = null;
+    return this;
+  }
+
+  override getEvents(): { [name: string]: leaflet.LeafletEventHandlerFn } {
+    return {
+      moveend: this.redraw,
+      resize: this.redraw,
+      click: this.handleClick,
+    };
+  }
+
+  onCellClick(callback: (i: number, j: number) => void) {
+    this.clickCallback = callback;
+  }
+
+  // Outline a cell for the keyboard cursor, or none
+  setCursor(cursor: CellPosition | null) {
+    const previous = this.cursor;
+    this.cursor = cursor && { ...cursor };
+    if (previous) this.redrawCell(previous.i, previous.j);
+    if (cursor) this.redrawCell(cursor.i, cursor.j);
+  }
+
+  setHighContrast(enabled: boolean) {
+    this.highContrast = enabled;
+    this.redraw();
+  }
+
+  // Hide cells that have never been in the player's range
+  setFog(enabled: boolean) {
+    this.fog = enabled;
+    this.redraw();
+  }
+
+  get isDetailed(): boolean {
+    return !!this.map && this.map.getZoom() >= this.gridOptions.detailZoom;
+  }
+
+  // Hit-test a click back to the cell that contains it
+  private handleClick(event: leaflet.LeafletEvent) {
+    const { latlng } = event as leaflet.LeafletMouseEvent;
+    // Clicking the density view zooms in to play at that spot
+    if (!this.isDetailed) {
+      this.map!.setView(latlng, this.gridOptions.detailZoom);
+      return;
+    }
+
+    const { i, j } = this.engine.latLngToCell(
+      latlng.lat,
+      latlng.lng,
+    );
+    this.clickCallback?.(i, j);
+  }
+
+  // --- Drawing ---
+
+  // Redraw everything in view, e.g. after the map moves or zooms
+  redraw() {
+    const map = this.map;
+    if (!map) return;
+
+    const size = map.getSize();
+    const padding = size.multiplyBy(CANVAS_PADDING).round();
+    const canvasSize = size.add(padding.multiplyBy(2));
+    this.topLeft = map.containerPointToLayerPoint(padding.multiplyBy(-1))
+      .round();
+    leaflet.DomUtil.setPosition(this.canvas, this.topLeft);
+    this.resizeCanvas(canvasSize);
+    this.context.clearRect(0, 0, canvasSize.x, canvasSize.y);
+
+    const northWest = map.layerPointToLatLng(this.topLeft);
+    const southEast = map.layerPointToLatLng(this.topLeft.add(canvasSize));
+    const range = this.engine.cellsInBounds(
+      { lat: southEast.lat, lng: northWest.lng },
+      { lat: northWest.lat, lng: southEast.lng },
+    );
+
+    if (this.isDetailed) {
+      this.releaseCells(range);
+      this.range = range;
+      this.drawCells(range);
+    } else {
+      this.releaseCells(null);
+      this.range = null;
+      this.drawDensity(range, map.getZoom());
+    }
+  }
+
+  // Redraw a single cell after its state changed
+  redrawCell(i: number, j: number) {
+    const range = this.range;
+    if (
+      !range || i < range.iMin || i > range.iMax || j < range.jMin ||
+      j > range.jMax
+    ) {
+      return;
+    }
+
+    const ctx = this.context;
+    ctx.save();
+    this.traceCell(i, j);
+    ctx.clip();
+    ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+    ctx.restore();
+    this.paintCell(i, j);
+  }
+
+  private drawCells(range: CellRange) {
+    for (let i = range.iMin; i <= range.iMax; i++) {
+      for (let j = range.jMin; j <= range.jMax; j++) {
+        this.paintCell(i, j);
+      }
+    }
+  }
+
+  // Everything is clipped to the cell so partial redraws stay clean; each
+  // cell draws its half of the lines it shares with its neighbors
+  private paintCell(i: number, j: number) {
+    const ctx = this.context;
+    ctx.save();
+    this.traceCell(i, j);
+    ctx.clip();
+    ctx.fillStyle = CELL_FILL;
+    ctx.fill();
+
+    if (this.isFogged(i, j)) {
+      this.fillCell(FOG_FILL);
+    } else {
+      const cell = this.engine.getCell(i, j);
+      if (cell.token) {
+        const { x, y } = this.toCanvasPoint(this.engine.getCellCenter(i, j));
+        ctx.beginPath();
+        ctx.arc(x, y, TOKEN_RADIUS, 0, 2 * Math.PI);
+        ctx.fillStyle = this.highContrast
+          ? CONTRAST_TOKEN_FILL
+          : TOKEN_FILLS[cell.token.element];
+        ctx.fill();
+        ctx.lineWidth = this.highContrast ? 3 : 2;
+        ctx.strokeStyle = this.highContrast
+          ? CONTRAST_TOKEN_STROKE
+          : TOKEN_STROKE;
+        ctx.stroke();
+
+        ctx.fillStyle = TOKEN_TEXT;
+        ctx.font = "700 13px sans-serif";
+        ctx.textAlign = "center";
+        ctx.textBaseline = "middle";
+        ctx.fillText(
+          this.highContrast ? tokenLabel(cell.token) : String(cell.token.value),
+          x,
+          y,
+        );
+      }
+
+      if (!this.engine.isInRange(i, j)) {
+        this.fillCell(OUT_OF_RANGE_FILL);
+      }
+    }
+
+    this.traceCell(i, j);
+    ctx.lineWidth = 1;
+    ctx.strokeStyle = CELL_STROKE;
+    ctx.stroke();
+
+    // Strokes are clipped to their inner half, inset from the grid line
+    if (this.cursor?.i === i && this.cursor.j === j) {
+      ctx.lineWidth = 8;
+      ctx.strokeStyle = CURSOR_OUTER;
+      ctx.stroke();
+      ctx.lineWidth = 4;
+      ctx.strokeStyle = CURSOR_INNER;
+      ctx.stroke();
+    }
+    ctx.restore();
+  }
+
+  // Zoomed out: shade blocks of cells by the share that hold tokens, counting
+  // only cells the player has seen
+  private drawDensity(range: CellRange, zoom: number) {
+    const blockCells = 2 ** (this.gridOptions.detailZoom - zoom);
+    const stride = Math.max(
+      1,
+      Math.floor(blockCells / DENSITY_SAMPLES_PER_SIDE),
+    );
+    const ctx = this.context;
+    ctx.strokeStyle = DENSITY_STROKE;
+    ctx.lineWidth = 1;
+
+    const iStart = Math.floor(range.iMin / blockCells) * blockCells;
+    const jStart = Math.floor(range.jMin / blockCells) * blockCells;
+    for (let i = iStart; i <= range.iMax; i += blockCells) {
+      for (let j = jStart; j <= range.jMax; j += blockCells) {
+        let samples = 0;
+        let tokens = 0;
+        for (let di = 0; di < blockCells; di += stride) {
+          for (let dj = 0; dj < blockCells; dj += stride) {
+            if (this.isFogged(i + di, j + dj)) continue;
+            samples++;
+            if (this.engine.peekCell(i + di, j + dj).token) tokens++;
+          }
+        }
+
+        // Blocks tile the map between the centers of the cells around them
+        const [first, last] = [i - 0.5, i + blockCells - 0.5];
+        const [left, right] = [j - 0.5, j + blockCells - 0.5];
+        this.tracePolygon([
+          this.engine.getCellCenter(first, left),
+          this.engine.getCellCenter(first, right),
+          this.engine.getCellCenter(last, right),
+          this.engine.getCellCenter(last, left),
+        ]);
+        const density = samples ? tokens / samples : 0;
+        ctx.fillStyle = samples
+          ? `rgba(255, 140, 0, ${Math.min(0.8, density * 2)})`
+          : FOG_FILL;
+        ctx.fill();
+        ctx.stroke();
+      }
+    }
+  }
+
+  // --- Helpers ---
+
+  private isFogged(i: number, j: number): boolean {
+    return this.fog && !this.engine.isRevealed(i, j);
+  }
+
+  // Fill the whole cell over what is already drawn, within the clip
+  private fillCell(color: string) {
+    this.context.fillStyle = color;
+    this.context.fillRect(0, 0, this.canvas.width, this.canvas.height);
+  }
+
+  private traceCell(i: number, j: number) {
+    this.tracePolygon(this.engine.getCellPolygon(i, j));
+  }
+
+  // Start a closed path through the given corners
+  private tracePolygon(corners: LatLng[]) {
+    const ctx = this.context;
+    ctx.beginPath();
+    for (const corner of corners) {
+      const { x, y } = this.toCanvasPoint(corner);
+      ctx.lineTo(x, y);
+    }
+    ctx.closePath();
+  }
+
+  // Canvas pixel position of a point on the map
+  private toCanvasPoint(latLng: LatLng): leaflet.Point {
+    return this.map!.latLngToLayerPoint(latLng).subtract(this.topLeft)
+      .round();
+  }
+
+  private resizeCanvas(size: leaflet.Point) {
+    const ratio = globalThis.devicePixelRatio || 1;
+    this.canvas.width = size.x * ratio;
+    this.canvas.height = size.y * ratio;
+    this.canvas.style.width = `${size.x}px`;
+    this.canvas.style.height = `${size.y}px`;
+    this.context.setTransform(ratio, 0, 0, ratio, 0, 0);
+  }
+
+  // Release engine cells that have left the drawn range (all when null)
+  private releaseCells(next: CellRange | null) {
+    const previous = this.range;
+    if (!previous) return;
+
+    for (let i = previous.iMin; i <= previous.iMax; i++) {
+      for (let j = previous.jMin; j <= previous.jMax; j++) {
+        const stillVisible = next && i >= next.iMin && i <= next.iMax &&
+          j >= next.jMin && j <= next.jMax;
+        if (!stillVisible) {
+          this.engine.releaseCell(i, j);
+        }
+      }
+    }
+  }
+
+  // Number of cells in the drawn range, used by the grid benchmark
+  get drawnCellCount(): number {
+    const range = this.range;
+    if (!range) return 0;
+    return (range.iMax - range.iMin + 1) * (range.jMax - range.jMin + 1);
+  }
+}
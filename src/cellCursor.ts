@@ -0,0 +1,49 @@
+// Keyboard cell cursor: a cell the player can move with the arrow keys and
+// act on with Enter, as an alternative to clicking cells on the map.
+
+import type { GameEngine } from "./gameEngine.ts";
+
+export interface CellPosition {
+  i: number;
+  j: number;
+}
+
+export class CellCursor {
+  private cell: CellPosition | null = null;
+
+  constructor(private engine: GameEngine) {}
+
+  get position(): CellPosition | null {
+    return this.cell && { ...this.cell };
+  }
+
+  // Keep the cursor while its cell is in range, otherwise start over on the
+  // player's cell
+  reset(): CellPosition {
+    if (!this.cell || !this.engine.isInRange(this.cell.i, this.cell.j)) {
+      const { lat, lng } = this.engine.playerPosition;
+      this.cell = this.engine.latLngToCell(lat, lng);
+    }
+    return { ...this.cell };
+  }
+
+  // Step to the neighboring cell toward a compass direction (signs of north
+  // and east); refuses cells out of range
+  move(north: number, east: number): boolean {
+    const { i, j } = this.reset();
+    const next = this.engine.neighborCell(i, j, north, east);
+    if (!this.engine.isInRange(next.i, next.j)) {
+      return false;
+    }
+    this.cell = next;
+    return true;
+  }
+
+  // Cells north (positive i) and east (positive j) of the player
+  offsetFromPlayer(): CellPosition | null {
+    if (!this.cell) return null;
+    const { lat, lng } = this.engine.playerPosition;
+    const player = this.engine.latLngToCell(lat, lng);
+    return { i: this.cell.i - player.i, j: this.cell.j - player.j };
+  }
+}
@@ -0,0 +1,106 @@
+// Compact set of grid cells, e.g. the cells a player has visited or seen.
+// Cells are grouped into the same square chunks as ChunkedGrid, stored as
+// bitsets, and saved as one base64url string per chunk.
+
+import { fromBase64Url, toBase64Url } from "./base64Url.ts";
+import {
+  CHUNK_SIZE,
+  chunkIndex,
+  chunkKey,
+  chunkOfKey,
+  keyOfChunk,
+} from "./chunkedGrid.ts";
+
+// One bit per cell of a chunk
+const CHUNK_BYTES = CHUNK_SIZE * CHUNK_SIZE / 8;
+
+const CHUNK_ID_PATTERN = /^(-?\d+),(-?\d+)$/;
+
+// Saved form: [chunk ID "ci,cj", bits as base64url] entries
+export type CellSetState = [string, string][];
+
+export function isCellSetState(value: unknown): value is CellSetState {
+  return Array.isArray(value) &&
+    value.every((entry) => {
+      if (
+        !Array.isArray(entry) || entry.length !== 2 ||
+        typeof entry[0] !== "string" || !CHUNK_ID_PATTERN.test(entry[0]) ||
+        typeof entry[1] !== "string"
+      ) {
+        return false;
+      }
+      try {
+        return fromBase64Url(entry[1]).length === CHUNK_BYTES;
+      } catch {
+        return false;
+      }
+    });
+}
+
+function countBits(bytes: Uint8Array): number {
+  let count = 0;
+  for (let byte of bytes) {
+    while (byte) {
+      count += byte & 1;
+      byte >>= 1;
+    }
+  }
+  return count;
+}
+
+export class CellSet {
+  // Bits by chunk key (see chunkKey)
+  private chunks = new Map<number, Uint8Array>();
+  private count = 0;
+
+  get size(): number {
+    return this.count;
+  }
+
+  has(i: number, j: number): boolean {
+    const { key, byte, bit } = this.locate(i, j);
+    const chunk = this.chunks.get(key);
+    return !!chunk && (chunk[byte] & bit) !== 0;
+  }
+
+  // Add a cell; true if it was not in the set yet
+  add(i: number, j: number): boolean {
+    const { key, byte, bit } = this.locate(i, j);
+    let chunk = this.chunks.get(key);
+    if (!chunk) {
+      chunk = new Uint8Array(CHUNK_BYTES);
+      this.chunks.set(key, chunk);
+    }
+    if (chunk[byte] & bit) return false;
+    chunk[byte] |= bit;
+    this.count++;
+    return true;
+  }
+
+  clear() {
+    this.chunks.clear();
+    this.count = 0;
+  }
+
+  toSerializable(): CellSetState {
+    return Array.from(this.chunks, ([key, chunk]) => {
+      const { ci, cj } = chunkOfKey(key);
+      return [`${ci},${cj}`, toBase64Url(chunk)];
+    });
+  }
+
+  load(state: CellSetState) {
+    this.clear();
+    for (const [chunkID, bits] of state) {
+      const [, ci, cj] = CHUNK_ID_PATTERN.exec(chunkID)!;
+      const chunk = fromBase64Url(bits);
+      this.chunks.set(keyOfChunk(Number(ci), Number(cj)), chunk);
+      this.count += countBits(chunk);
+    }
+  }
+
+  private locate(i: number, j: number) {
+    const index = chunkIndex(i, j);
+    return { key: chunkKey(i, j), byte: index >> 3, bit: 1 << (index & 7) };
+  }
+}
@@ -0,0 +1,182 @@
+// Values stored per grid cell, grouped into square chunks with integer keys.
+// Lookups need no "i,j" strings, range queries only visit the chunks that
+// overlap the range, and whole chunks can be loaded, saved or dropped.
+
+// Cells per side of a chunk
+export const CHUNK_SIZE = 16;
+
+// Chunk coordinates are shifted into [0, CHUNK_SPAN) so keys stay positive
+// safe integers; this covers about 134 million cells each way
+const CHUNK_SPAN = 2 ** 24;
+const CHUNK_OFFSET = 2 ** 23;
+
+// Range of cell indices, inclusive
+export interface CellRange {
+  iMin: number;
+  iMax: number;
+  jMin: number;
+  jMax: number;
+}
+
+export interface GridEntry<T> {
+  i: number;
+  j: number;
+  value: T;
+}
+
+// Key of the chunk at chunk coordinates (ci, cj)
+export function keyOfChunk(ci: number, cj: number): number {
+  return (ci + CHUNK_OFFSET) * CHUNK_SPAN + cj + CHUNK_OFFSET;
+}
+
+// Chunk coordinates of a key
+export function chunkOfKey(key: number): { ci: number; cj: number } {
+  return {
+    ci: Math.floor(key / CHUNK_SPAN) - CHUNK_OFFSET,
+    cj: key % CHUNK_SPAN - CHUNK_OFFSET,
+  };
+}
+
+// Key of the chunk containing cell (i, j)
+export function chunkKey(i: number, j: number): number {
+  return keyOfChunk(Math.floor(i / CHUNK_SIZE), Math.floor(j / CHUNK_SIZE));
+}
+
+// Position of cell (i, j) within its chunk
+export function chunkIndex(i: number, j: number): number {
+  const row = i - Math.floor(i / CHUNK_SIZE) * CHUNK_SIZE;
+  const column = j - Math.floor(j / CHUNK_SIZE) * CHUNK_SIZE;
+  return row * CHUNK_SIZE + column;
+}
+
+// Cell at a position within a chunk
+export function chunkCell(
+  key: number,
+  index: number,
+): { i: number; j: number } {
+  const { ci, cj } = chunkOfKey(key);
+  return {
+    i: ci * CHUNK_SIZE + Math.floor(index / CHUNK_SIZE),
+    j: cj * CHUNK_SIZE + index % CHUNK_SIZE,
+  };
+}
+
+// Keys of the chunks overlapping a range
+export function chunksInRange(range: CellRange): number[] {
+  const keys: number[] = [];
+  const ciMax = Math.floor(range.iMax / CHUNK_SIZE);
+  const cjMax = Math.floor(range.jMax / CHUNK_SIZE);
+  for (let ci = Math.floor(range.iMin / CHUNK_SIZE); ci <= ciMax; ci++) {
+    for (let cj = Math.floor(range.jMin / CHUNK_SIZE); cj <= cjMax; cj++) {
+      keys.push(keyOfChunk(ci, cj));
+    }
+  }
+  return keys;
+}
+
+export class ChunkedGrid<T> {
+  // Chunk key to the values in that chunk by position
+  private chunks = new Map<number, Map<number, T>>();
+  private count = 0;
+
+  get size(): number {
+    return this.count;
+  }
+
+  get chunkCount(): number {
+    return this.chunks.size;
+  }
+
+  get(i: number, j: number): T | undefined {
+    const chunk = this.chunks.get(chunkKey(i, j));
+    return chunk && chunk.get(chunkIndex(i, j));
+  }
+
+  has(i: number, j: number): boolean {
+    return this.chunks.get(chunkKey(i, j))?.has(chunkIndex(i, j)) ?? false;
+  }
+
+  set(i: number, j: number, value: T) {
+    const key = chunkKey(i, j);
+    let chunk = this.chunks.get(key);
+    if (!chunk) {
+      chunk = new Map();
+      this.chunks.set(key, chunk);
+    }
+    const index = chunkIndex(i, j);
+    if (!chunk.has(index)) this.count++;
+    chunk.set(index, value);
+  }
+
+  delete(i: number, j: number): boolean {
+    const key = chunkKey(i, j);
+    const chunk = this.chunks.get(key);
+    if (!chunk?.delete(chunkIndex(i, j))) return false;
+    this.count--;
+    if (chunk.size === 0) this.chunks.delete(key);
+    return true;
+  }
+
+  clear() {
+    this.chunks.clear();
+    this.count = 0;
+  }
+
+  entries(): GridEntry<T>[] {
+    const entries: GridEntry<T>[] = [];
+    for (const [key, chunk] of this.chunks) {
+      for (const [index, value] of chunk) {
+        const { i, j } = chunkCell(key, index);
+        entries.push({ i, j, value });
+      }
+    }
+    return entries;
+  }
+
+  // Values of cells inside the range; a range spanning more chunks than are
+  // stored walks the stored chunks instead
+  inRange(range: CellRange): GridEntry<T>[] {
+    const spanned = (Math.floor(range.iMax / CHUNK_SIZE) -
+      Math.floor(range.iMin / CHUNK_SIZE) + 1) *
+      (Math.floor(range.jMax / CHUNK_SIZE) -
+        Math.floor(range.jMin / CHUNK_SIZE) + 1);
+    const keys = spanned > this.chunks.size
+      ? this.chunkKeys()
+      : chunksInRange(range);
+    return keys.flatMap((key) =>
+      this.chunkEntries(key).filter(({ i, j }) =>
+        range.iMin <= i && i <= range.iMax && range.jMin <= j &&
+        j <= range.jMax
+      )
+    );
+  }
+
+  // --- Whole chunks ---
+
+  chunkKeys(): number[] {
+    return Array.from(this.chunks.keys());
+  }
+
+  hasChunk(key: number): boolean {
+    return this.chunks.has(key);
+  }
+
+  // Values of one chunk by position, e.g. to store the chunk
+  getChunk(key: number): [number, T][] {
+    return Array.from(this.chunks.get(key) ?? []);
+  }
+
+  chunkEntries(key: number): GridEntry<T>[] {
+    return this.getChunk(key).map(([index, value]) => ({
+      ...chunkCell(key, index),
+      value,
+    }));
+  }
+
+  deleteChunk(key: number) {
+    const chunk = this.chunks.get(key);
+    if (!chunk) return;
+    this.count -= chunk.size;
+    this.chunks.delete(key);
+  }
+}
@@ -0,0 +1,132 @@
+// Typed tokens and the data-driven recipe table that says which tokens can
+// be crafted together and what they become.
+
+// === Tokens ===
+
+export const ELEMENTS = ["neutral", "fire", "water", "earth", "air"] as const;
+
+export type Element = typeof ELEMENTS[number];
+
+export interface Token {
+  value: number;
+  element: Element;
+}
+
+export function isElement(value: unknown): value is Element {
+  return ELEMENTS.includes(value as Element);
+}
+
+export function isToken(value: unknown): value is Token {
+  const token = value as Partial<Token> | null;
+  return typeof token === "object" && token !== null &&
+    typeof token.value === "number" && Number.isFinite(token.value) &&
+    token.value > 0 && isElement(token.element);
+}
+
+export function formatToken(token: Token): string {
+  const name = token.element[0].toUpperCase() + token.element.slice(1);
+  return `${name} ${token.value}`;
+}
+
+// Compact label that does not rely on color, e.g. "F4"; neutral is just "4"
+export function tokenLabel(token: Token): string {
+  const mark = token.element === "neutral"
+    ? ""
+    : token.element[0].toUpperCase();
+  return `${mark}${token.value}`;
+}
+
+// === Recipes ===
+
+// Output or byproduct token, valued relative to the (equal) input values
+export interface RecipeProduct {
+  element: Element;
+  valueFactor: number;
+}
+
+export interface Recipe {
+  name: string;
+  // Elements of the held token and the cell token, in either order; both
+  // inputs must have the same value
+  inputs: [Element, Element];
+  // Replaces the token in the cell
+  output: RecipeProduct;
+  // Goes into the inventory slot the held token was taken from
+  byproduct?: RecipeProduct;
+}
+
+const CHARGED_ELEMENTS = ELEMENTS.filter((element) => element !== "neutral");
+
+export const RECIPES: Recipe[] = [
+  // Equal tokens merge into one of double value (the original crafting)
+  ...ELEMENTS.map((element): Recipe => ({
+    name: "Merge",
+    inputs: [element, element],
+    output: { element, valueFactor: 2 },
+  })),
+  // Neutral tokens take on the element they are crafted with
+  ...CHARGED_ELEMENTS.map((element): Recipe => ({
+    name: `Attune to ${element}`,
+    inputs: ["neutral", element],
+    output: { element, valueFactor: 2 },
+  })),
+  {
+    name: "Steam",
+    inputs: ["fire", "water"],
+    output: { element: "air", valueFactor: 2 },
+  },
+  {
+    name: "Quench",
+    inputs: ["fire", "water"],
+    output: { element: "neutral", valueFactor: 2 },
+    byproduct: { element: "water", valueFactor: 0.5 },
+  },
+  {
+    name: "Lava",
+    inputs: ["fire", "earth"],
+    output: { element: "fire", valueFactor: 2 },
+    byproduct: { element: "earth", valueFactor: 0.5 },
+  },
+  {
+    name: "Mud",
+    inputs: ["water", "earth"],
+    output: { element: "earth", valueFactor: 2 },
+    byproduct: { element: "water", valueFactor: 0.5 },
+  },
+  {
+    name: "Wildfire",
+    inputs: ["fire", "air"],
+    output: { element: "fire", valueFactor: 2 },
+  },
+  {
+    name: "Storm",
+    inputs: ["water", "air"],
+    output: { element: "water", valueFactor: 2 },
+  },
+  {
+    name: "Dust",
+    inputs: ["earth", "air"],
+    output: { element: "air", valueFactor: 2 },
+    byproduct: { element: "earth", valueFactor: 0.5 },
+  },
+];
+
+// Recipes that accept the held token together with the cell token
+export function findRecipes(
+  recipes: readonly Recipe[],
+  held: Token,
+  target: Token,
+): Recipe[] {
+  if (held.value !== target.value) return [];
+  return recipes.filter(({ inputs: [a, b] }) =>
+    (a === held.element && b === target.element) ||
+    (a === target.element && b === held.element)
+  );
+}
+
+export function makeProduct(product: RecipeProduct, inputValue: number): Token {
+  return {
+    element: product.element,
+    value: Math.max(1, Math.round(inputValue * product.valueFactor)),
+  };
+}
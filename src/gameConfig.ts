@@ -0,0 +1,516 @@
+// Typed game configuration: the tunable rules of one game, with presets,
+// loading from URL query params or a JSON file, and validation.
+
+import { ACHIEVEMENTS } from "./achievements.ts";
+import { isElement, RECIPES } from "./crafting.ts";
+import type { GameRules, LatLng } from "./gameEngine.ts";
+import {
+  createGridProjection,
+  type GridProjectionName,
+  type GridType,
+  isGridProjectionName,
+  isGridType,
+} from "./gridProjection.ts";
+import {
+  DistanceScaledSpawnRule,
+  ElementSpawnRule,
+  HotspotSpawnRule,
+  type SpawnRule,
+  type WeightedElement,
+  type WeightedValue,
+  WeightedValueSpawnRule,
+} from "./spawnRules.ts";
+import type { WorldEvent } from "./worldEvents.ts";
+
+// === Schema ===
+
+// Parameters of the layered spawn rule built by buildSpawnRule
+export interface SpawnConfig {
+  probability: number;
+  valueWeights: WeightedValue[];
+  // Distance scaling: every ring of `ringCells` cells doubles token values
+  // (at most `maxDoublings` times) and thins out spawns by `rarityPerRing`
+  ringCells: number;
+  maxDoublings: number;
+  rarityPerRing: number;
+  // Noise-shaped hotspots where empty cells get extra spawn rolls
+  hotspotRegionCells: number;
+  hotspotThreshold: number;
+  hotspotExtraRolls: number;
+  // Share of spawned tokens of each element
+  elementWeights: WeightedElement[];
+}
+
+// How the world changes over time; 0 turns regrowing or decay off
+export interface TimeConfig {
+  // Emptied cells regrow a token from the spawn rule after this long
+  regenerationMinutes: number;
+  // Tokens players leave in cells vanish after this long
+  decayMinutes: number;
+  events: WorldEvent[];
+}
+
+export interface GameConfig {
+  origin: LatLng;
+  tileDegrees: number;
+  // How cells are laid out on the globe (see gridProjection.ts)
+  projection: GridProjectionName;
+  // Square cells, or hexagons with axial indices
+  gridType: GridType;
+  playerRangeMeters: number;
+  victoryThreshold: number;
+  inventoryCapacity: number;
+  historyLimit: number;
+  spawn: SpawnConfig;
+  time: TimeConfig;
+}
+
+export class GameConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GameConfigError";
+  }
+}
+
+// === Presets ===
+
+// Also given to saves from before tokens had elements
+export const DEFAULT_ELEMENT_WEIGHTS: WeightedElement[] = [
+  { element: "neutral", weight: 40 },
+  { element: "fire", weight: 15 },
+  { element: "water", weight: 15 },
+  { element: "earth", weight: 15 },
+  { element: "air", weight: 15 },
+];
+
+// Also given to saves from before the world changed over time
+export const DEFAULT_TIME: TimeConfig = {
+  regenerationMinutes: 30,
+  decayMinutes: 0,
+  events: [
+    {
+      name: "Double Spawn Hour",
+      startHourUTC: 18,
+      durationHours: 1,
+      extraRolls: 1,
+    },
+  ],
+};
+
+// The original rules; saves from before configs were stored use these
+const NORMAL: GameConfig = {
+  origin: { lat: 0, lng: 0 },
+  tileDegrees: 0.0001,
+  projection: "equirectangular",
+  gridType: "square",
+  playerRangeMeters: 35,
+  victoryThreshold: 32,
+  inventoryCapacity: 4,
+  historyLimit: 50,
+  spawn: {
+    probability: 0.15,
+    valueWeights: [
+      { value: 2, weight: 70 },
+      { value: 4, weight: 25 },
+      { value: 8, weight: 5 },
+    ],
+    ringCells: 1000,
+    maxDoublings: 3,
+    rarityPerRing: 0.5,
+    hotspotRegionCells: 40,
+    hotspotThreshold: 0.8,
+    hotspotExtraRolls: 2,
+    elementWeights: DEFAULT_ELEMENT_WEIGHTS,
+  },
+  time: DEFAULT_TIME,
+};
+
+export const PRESETS = {
+  easy: {
+    ...NORMAL,
+    playerRangeMeters: 50,
+    victoryThreshold: 16,
+    inventoryCapacity: 6,
+    spawn: {
+      ...NORMAL.spawn,
+      probability: 0.25,
+      valueWeights: [
+        { value: 2, weight: 55 },
+        { value: 4, weight: 35 },
+        { value: 8, weight: 10 },
+      ],
+    },
+    time: { ...DEFAULT_TIME, regenerationMinutes: 10 },
+  },
+  normal: NORMAL,
+  hard: {
+    ...NORMAL,
+    playerRangeMeters: 25,
+    victoryThreshold: 64,
+    inventoryCapacity: 3,
+    spawn: {
+      ...NORMAL.spawn,
+      probability: 0.1,
+      rarityPerRing: 1,
+      hotspotExtraRolls: 1,
+    },
+    time: { ...DEFAULT_TIME, regenerationMinutes: 60, decayMinutes: 24 * 60 },
+  },
+} satisfies Record<string, GameConfig>;
+
+export type PresetName = keyof typeof PRESETS;
+
+export const DEFAULT_CONFIG: GameConfig = PRESETS.normal;
+
+export function isPresetName(name: string): name is PresetName {
+  return Object.hasOwn(PRESETS, name);
+}
+
+// === Validation ===
+
+type RawConfig = Record<string, unknown>;
+
+function isRecord(value: unknown): value is RawConfig {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function requireNumber(
+  record: RawConfig,
+  key: string,
+  valid: (value: number) => boolean,
+  path = key,
+): number {
+  const value = record[key];
+  if (typeof value !== "number" || !Number.isFinite(value) || !valid(value)) {
+    throw new GameConfigError(`${path} is invalid`);
+  }
+  return value;
+}
+
+const positive = (value: number) => value > 0;
+const nonNegative = (value: number) => value >= 0;
+const positiveInteger = (value: number) => Number.isInteger(value) && value > 0;
+const nonNegativeInteger = (value: number) =>
+  Number.isInteger(value) && value >= 0;
+const fraction = (value: number) => value >= 0 && value <= 1;
+
+function validateSpawnConfig(spawn: unknown): SpawnConfig {
+  if (!isRecord(spawn)) {
+    throw new GameConfigError("spawn is not an object");
+  }
+  const number = (key: string, valid: (value: number) => boolean) =>
+    requireNumber(spawn, key, valid, `spawn.${key}`);
+
+  const weights = spawn.valueWeights;
+  if (
+    !Array.isArray(weights) || weights.length === 0 ||
+    !weights.every((entry) =>
+      isRecord(entry) && typeof entry.value === "number" &&
+      positiveInteger(entry.value) && typeof entry.weight === "number" &&
+      positive(entry.weight)
+    )
+  ) {
+    throw new GameConfigError("spawn.valueWeights is invalid");
+  }
+
+  const elementWeights = spawn.elementWeights;
+  if (
+    !Array.isArray(elementWeights) || elementWeights.length === 0 ||
+    !elementWeights.every((entry) =>
+      isRecord(entry) && isElement(entry.element) &&
+      typeof entry.weight === "number" && positive(entry.weight)
+    )
+  ) {
+    throw new GameConfigError("spawn.elementWeights is invalid");
+  }
+
+  return {
+    probability: number("probability", fraction),
+    valueWeights: weights.map(({ value, weight }) => ({ value, weight })),
+    ringCells: number("ringCells", positiveInteger),
+    maxDoublings: number("maxDoublings", nonNegativeInteger),
+    rarityPerRing: number("rarityPerRing", nonNegative),
+    hotspotRegionCells: number("hotspotRegionCells", positiveInteger),
+    hotspotThreshold: number("hotspotThreshold", fraction),
+    hotspotExtraRolls: number("hotspotExtraRolls", nonNegativeInteger),
+    elementWeights: elementWeights.map(({ element, weight }) => ({
+      element,
+      weight,
+    })),
+  };
+}
+
+function validateTimeConfig(time: unknown): TimeConfig {
+  if (!isRecord(time)) {
+    throw new GameConfigError("time is not an object");
+  }
+  const number = (key: string, valid: (value: number) => boolean) =>
+    requireNumber(time, key, valid, `time.${key}`);
+
+  const events = time.events;
+  if (!Array.isArray(events)) {
+    throw new GameConfigError("time.events is invalid");
+  }
+  return {
+    regenerationMinutes: number("regenerationMinutes", nonNegative),
+    decayMinutes: number("decayMinutes", nonNegative),
+    events: events.map((event, index): WorldEvent => {
+      const path = `time.events[${index}]`;
+      if (!isRecord(event) || typeof event.name !== "string") {
+        throw new GameConfigError(`${path} is invalid`);
+      }
+      return {
+        name: event.name,
+        startHourUTC: requireNumber(
+          event,
+          "startHourUTC",
+          (hour) => hour >= 0 && hour < 24,
+          `${path}.startHourUTC`,
+        ),
+        durationHours: requireNumber(
+          event,
+          "durationHours",
+          (hours) => hours > 0 && hours <= 24,
+          `${path}.durationHours`,
+        ),
+        extraRolls: requireNumber(
+          event,
+          "extraRolls",
+          nonNegativeInteger,
+          `${path}.extraRolls`,
+        ),
+      };
+    }),
+  };
+}
+
+const MAX_EQUAL_AREA_LAT = 85;
+// Cells from about a metre to about 100 km across; smaller ones put more
+// cells in the player's range than the map can draw
+const MIN_TILE_DEGREES = 0.00001;
+const MAX_TILE_DEGREES = 1;
+// Upper limits for fields a link can set; larger values only hang the page
+// (e.g. one inventory slot element per slot)
+const MAX_PLAYER_RANGE_METERS = 1000;
+const MAX_VICTORY_THRESHOLD = 2 ** 20;
+const MAX_INVENTORY_CAPACITY = 20;
+const MAX_HISTORY_LIMIT = 1000;
+
+// Check an untrusted value and return a clean copy, throwing GameConfigError
+export function validateGameConfig(config: unknown): GameConfig {
+  if (!isRecord(config)) {
+    throw new GameConfigError("Config is not an object");
+  }
+
+  const origin = config.origin;
+  if (!isRecord(origin)) {
+    throw new GameConfigError("origin is invalid");
+  }
+  if (!isGridProjectionName(config.projection)) {
+    throw new GameConfigError(`Unknown projection: ${config.projection}`);
+  }
+  if (!isGridType(config.gridType)) {
+    throw new GameConfigError(`Unknown grid type: ${config.gridType}`);
+  }
+  // The equal-area grid has square cells at the origin's latitude, so it
+  // needs one away from the poles
+  const maxLat = config.projection === "equalArea" ? MAX_EQUAL_AREA_LAT : 90;
+
+  return {
+    origin: {
+      lat: requireNumber(
+        origin,
+        "lat",
+        (lat) => Math.abs(lat) <= maxLat,
+        "origin.lat",
+      ),
+      lng: requireNumber(
+        origin,
+        "lng",
+        (lng) => Math.abs(lng) <= 180,
+        "origin.lng",
+      ),
+    },
+    tileDegrees: requireNumber(
+      config,
+      "tileDegrees",
+      (degrees) => degrees >= MIN_TILE_DEGREES && degrees <= MAX_TILE_DEGREES,
+    ),
+    projection: config.projection,
+    gridType: config.gridType,
+    playerRangeMeters: requireNumber(
+      config,
+      "playerRangeMeters",
+      (meters) => meters > 0 && meters <= MAX_PLAYER_RANGE_METERS,
+    ),
+    victoryThreshold: requireNumber(
+      config,
+      "victoryThreshold",
+      (value) => value > 0 && value <= MAX_VICTORY_THRESHOLD,
+    ),
+    inventoryCapacity: requireNumber(
+      config,
+      "inventoryCapacity",
+      (slots) => positiveInteger(slots) && slots <= MAX_INVENTORY_CAPACITY,
+    ),
+    historyLimit: requireNumber(
+      config,
+      "historyLimit",
+      (limit) => nonNegativeInteger(limit) && limit <= MAX_HISTORY_LIMIT,
+    ),
+    spawn: validateSpawnConfig(config.spawn),
+    time: validateTimeConfig(config.time),
+  };
+}
+
+// === Loading ===
+
+// A JSON file may name a `preset` and override any of its fields
+export function parseGameConfig(json: string): GameConfig {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new GameConfigError("Config is not valid JSON");
+  }
+  if (!isRecord(data)) {
+    throw new GameConfigError("Config is not an object");
+  }
+
+  const { preset = "normal", ...overrides } = data;
+  if (typeof preset !== "string" || !isPresetName(preset)) {
+    throw new GameConfigError(`Unknown preset: ${preset}`);
+  }
+  const base = PRESETS[preset];
+  const spawn = isRecord(overrides.spawn) ? overrides.spawn : {};
+  const origin = isRecord(overrides.origin) ? overrides.origin : {};
+  const time = isRecord(overrides.time) ? overrides.time : {};
+  return validateGameConfig({
+    ...base,
+    ...overrides,
+    origin: { ...base.origin, ...origin },
+    spawn: { ...base.spawn, ...spawn },
+    time: { ...base.time, ...time },
+  });
+}
+
+// Query params that override single numeric fields, e.g. `?victory=64`
+const QUERY_FIELDS: Record<
+  string,
+  (config: GameConfig, value: number) => void
+> = {
+  originLat: (config, value) => config.origin.lat = value,
+  originLng: (config, value) => config.origin.lng = value,
+  tileDegrees: (config, value) => config.tileDegrees = value,
+  range: (config, value) => config.playerRangeMeters = value,
+  victory: (config, value) => config.victoryThreshold = value,
+  capacity: (config, value) => config.inventoryCapacity = value,
+  historyLimit: (config, value) => config.historyLimit = value,
+  spawnProbability: (config, value) => config.spawn.probability = value,
+  regenMinutes: (config, value) => config.time.regenerationMinutes = value,
+  decayMinutes: (config, value) => config.time.decayMinutes = value,
+};
+
+// Query params that pick one of a field's named options, e.g. `?grid=hex`
+const QUERY_CHOICES: Record<
+  string,
+  (config: GameConfig, value: string) => void
+> = {
+  projection: (config, value) => {
+    if (!isGridProjectionName(value)) {
+      throw new GameConfigError(`Unknown projection: ${value}`);
+    }
+    config.projection = value;
+  },
+  grid: (config, value) => {
+    if (!isGridType(value)) {
+      throw new GameConfigError(`Unknown grid type: ${value}`);
+    }
+    config.gridType = value;
+  },
+};
+
+// Read `?preset=hard&victory=128&grid=hex` style params; null when none are
+// present
+export function configFromQuery(params: URLSearchParams): GameConfig | null {
+  const preset = params.get("preset");
+  const fields = Object.keys(QUERY_FIELDS).filter((key) => params.has(key));
+  const choices = Object.keys(QUERY_CHOICES).filter((key) => params.has(key));
+  if (preset === null && fields.length === 0 && choices.length === 0) {
+    return null;
+  }
+
+  if (preset !== null && !isPresetName(preset)) {
+    throw new GameConfigError(`Unknown preset: ${preset}`);
+  }
+  const config = structuredClone(PRESETS[preset ?? "normal"]);
+  for (const key of fields) {
+    QUERY_FIELDS[key](config, Number(params.get(key)));
+  }
+  for (const key of choices) {
+    QUERY_CHOICES[key](config, params.get(key)!);
+  }
+  return validateGameConfig(config);
+}
+
+// Query param names used by configFromQuery, so callers can strip them
+export const CONFIG_QUERY_PARAMS = [
+  "preset",
+  ...Object.keys(QUERY_FIELDS),
+  ...Object.keys(QUERY_CHOICES),
+];
+
+// Name of the preset a config matches, if any
+export function presetNameOf(config: GameConfig): PresetName | null {
+  const names = Object.keys(PRESETS) as PresetName[];
+  return names.find((name) => sameConfig(PRESETS[name], config)) ?? null;
+}
+
+export function sameConfig(a: GameConfig, b: GameConfig): boolean {
+  return JSON.stringify(validateGameConfig(a)) ===
+    JSON.stringify(validateGameConfig(b));
+}
+
+// === Engine rules ===
+
+const MINUTE_MS = 60 * 1000;
+
+export function buildSpawnRule(spawn: SpawnConfig): SpawnRule {
+  return new ElementSpawnRule(
+    new HotspotSpawnRule(
+      new DistanceScaledSpawnRule(
+        new WeightedValueSpawnRule(spawn.probability, spawn.valueWeights),
+        spawn.ringCells,
+        spawn.maxDoublings,
+        spawn.rarityPerRing,
+      ),
+      spawn.hotspotRegionCells,
+      spawn.hotspotThreshold,
+      spawn.hotspotExtraRolls,
+    ),
+    spawn.elementWeights,
+  );
+}
+
+export function toGameRules(config: GameConfig): GameRules {
+  return {
+    origin: config.origin,
+    tileDegrees: config.tileDegrees,
+    projection: createGridProjection(
+      config.projection,
+      config.gridType,
+      config.origin,
+      config.tileDegrees,
+    ),
+    spawnRule: buildSpawnRule(config.spawn),
+    recipes: RECIPES,
+    achievements: ACHIEVEMENTS,
+    playerRangeMeters: config.playerRangeMeters,
+    victoryThreshold: config.victoryThreshold,
+    inventoryCapacity: config.inventoryCapacity,
+    historyLimit: config.historyLimit,
+    regenerationMs: config.time.regenerationMinutes * MINUTE_MS,
+    decayMs: config.time.decayMinutes * MINUTE_MS,
+    events: config.time.events,
+  };
+}
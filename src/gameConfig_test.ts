@@ -0,0 +1,65 @@
+// Tests for the limits validateGameConfig puts on configs from files and links.
+//
+//   deno task test
+
+import assert from "node:assert/strict";
+
+import {
+  configFromQuery,
+  DEFAULT_CONFIG,
+  GameConfigError,
+  validateGameConfig,
+} from "./gameConfig.ts";
+
+Deno.test("validateGameConfig accepts cells from a metre to a degree", () => {
+  for (const tileDegrees of [0.00001, 0.0001, 0.5, 1]) {
+    const config = validateGameConfig({ ...DEFAULT_CONFIG, tileDegrees });
+    assert.equal(config.tileDegrees, tileDegrees);
+  }
+});
+
+Deno.test("validateGameConfig rejects tiny and huge cells", () => {
+  for (const tileDegrees of [1e-7, 0, -0.0001, 2, 360, Infinity]) {
+    assert.throws(
+      () => validateGameConfig({ ...DEFAULT_CONFIG, tileDegrees }),
+      GameConfigError,
+      `${tileDegrees}`,
+    );
+  }
+  assert.throws(
+    () => configFromQuery(new URLSearchParams("tileDegrees=1e-7")),
+    GameConfigError,
+  );
+});
+
+Deno.test("validateGameConfig bounds the fields links can set", () => {
+  const limits = {
+    playerRangeMeters: [1000, 1001],
+    victoryThreshold: [2 ** 20, 2 ** 20 + 1],
+    inventoryCapacity: [20, 21],
+    historyLimit: [1000, 1001],
+  };
+  for (const [field, [largest, tooLarge]] of Object.entries(limits)) {
+    const config = validateGameConfig({ ...DEFAULT_CONFIG, [field]: largest });
+    assert.equal(config[field as keyof typeof limits], largest);
+    assert.throws(
+      () => validateGameConfig({ ...DEFAULT_CONFIG, [field]: tooLarge }),
+      GameConfigError,
+      field,
+    );
+  }
+  for (
+    const query of [
+      "capacity=100000000",
+      "historyLimit=1e9",
+      "range=1e7",
+      "victory=1e12",
+    ]
+  ) {
+    assert.throws(
+      () => configFromQuery(new URLSearchParams(query)),
+      GameConfigError,
+      query,
+    );
+  }
+});
@@ -0,0 +1,1096 @@
+// Headless game engine: all of the game rules with no DOM or Leaflet access.
+// main.ts renders the state kept here and forwards player input to it.
+
+import luck from "./_luck.ts";
+import type { Achievement } from "./achievements.ts";
+import { CellSet, type CellSetState } from "./cellSet.ts";
+import {
+  type CellRange,
+  chunkCell,
+  ChunkedGrid,
+  chunkKey,
+  chunksInRange,
+  type GridEntry,
+} from "./chunkedGrid.ts";
+import {
+  findRecipes,
+  makeProduct,
+  type Recipe,
+  type Token,
+} from "./crafting.ts";
+import { type GridProjection, wrapLongitude } from "./gridProjection.ts";
+import {
+  ActionHistory,
+  type CellAction,
+  type CellActionKind,
+  type HistoryState,
+} from "./history.ts";
+import { Inventory, type InventoryState } from "./inventory.ts";
+import { type LuckFunction, seededLuck, type SpawnRule } from "./spawnRules.ts";
+import { type ActionStats, type StatsState, StatsTracker } from "./stats.ts";
+import {
+  activeOccurrences,
+  type EventOccurrence,
+  nextEventBoundary,
+  type WorldEvent,
+} from "./worldEvents.ts";
+
+// === Types ===
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+// Intrinsic state of a single grid cell
+export interface Cell {
+  token: Token | null;
+}
+
+// Tunable gameplay parameters the engine needs
+export interface GameRules {
+  origin: LatLng;
+  tileDegrees: number;
+  // Grid system built from the origin and tile size
+  projection: GridProjection;
+  spawnRule: SpawnRule;
+  recipes: readonly Recipe[];
+  achievements: readonly Achievement[];
+  playerRangeMeters: number;
+  victoryThreshold: number;
+  inventoryCapacity: number;
+  historyLimit: number;
+  // Emptied cells regrow and left tokens decay after these (0: never)
+  regenerationMs: number;
+  decayMs: number;
+  events: readonly WorldEvent[];
+}
+
+// What clicking a cell would do, mirroring the branches of a cell click
+export type CellInteraction =
+  | { kind: "tooFar" }
+  | { kind: "loading" }
+  | { kind: "pickUp"; cellToken: Token }
+  | { kind: "craft"; cellToken: Token; recipes: Recipe[] }
+  | { kind: "cannotCraft"; cellToken: Token }
+  | { kind: "empty" }
+  | { kind: "place"; inventoryToken: Token };
+
+// State changes produced by engine actions
+export type GameEvent =
+  | { type: "cellChanged"; i: number; j: number; cell: Cell }
+  | { type: "inventoryChanged"; inventory: InventoryState }
+  | { type: "achievementUnlocked"; achievement: Achievement }
+  | { type: "victory"; goal: Achievement }
+  | { type: "historyChanged"; canUndo: boolean; canRedo: boolean };
+
+// Everything the engine needs to resume a game
+export interface EngineState {
+  seed: string;
+  playerPosition: LatLng;
+  inventory: InventoryState;
+  victoryState: boolean;
+  modifiedCells: [string, CellMemento][];
+  history: HistoryState;
+  stats: StatsState;
+  // IDs of unlocked achievements
+  achievements: string[];
+  // Cells that have come within the player's range (fog of war)
+  revealedCells: CellSetState;
+}
+
+// A cell's state at some time, and when it next changes by itself
+interface TimedCell {
+  cell: Cell;
+  changesAt: number;
+}
+
+// Near a pole every column can be in range; reveal at most this many cells
+// each way
+const MAX_REVEAL_RADIUS_CELLS = 256;
+
+// State captured before an action so it can be recorded in the history
+interface ActionSnapshot {
+  cell: CellMemento;
+  inventory: InventoryState;
+  stats: ActionStats;
+}
+
+export type ActionResult =
+  | { ok: true; events: GameEvent[] }
+  | { ok: false; reason: string };
+
+// === Memento Implementation ===
+
+// Memento class for storing snapshot of cell state
+export class CellMemento {
+  token: Token | null;
+  // When the cell was changed (ms since the epoch); regrowing and decay
+  // count from here
+  modifiedAt: number;
+
+  constructor(cell: Cell, modifiedAt: number) {
+    this.token = cell.token && { ...cell.token };
+    this.modifiedAt = modifiedAt;
+  }
+}
+
+// A chunk of modified cells as stored: [position in chunk, memento] pairs
+export type StoredChunk = [number, CellMemento][];
+
+// Where chunks of modified cells go when they are not kept in memory, e.g.
+// IndexedDB. Chunks are written whenever one of their cells changes, and
+// writes of the same chunk finish in the order they were made.
+export interface ChunkStorage {
+  putChunk(key: number, cells: StoredChunk): Promise<void>;
+  getChunk(key: number): Promise<StoredChunk>;
+}
+
+// Caretaker for tracking mementos of modified cells, in chunks (see
+// chunkedGrid.ts). With storage attached, chunks are written as they
+// change, the least recently used ones are dropped from memory beyond a
+// limit, and dropped chunks load again in the background when needed.
+export class ModifiedCells {
+  private mementos = new ChunkedGrid<CellMemento>();
+  private storage: ChunkStorage | null = null;
+  private maxChunks = Infinity;
+  // Chunks in storage but not in memory
+  private stored = new Set<number>();
+  // Chunks being loaded; cells saved meanwhile win over the stored ones
+  private loading = new Map<number, Promise<void>>();
+  // Chunks in memory that storage also holds, least recently used first;
+  // only these can be dropped
+  private persisted = new Set<number>();
+  // Writes still in progress per chunk; a chunk is only persisted once its
+  // latest write succeeds
+  private writing = new Map<number, number>();
+  // While above zero (e.g. during an export), nothing is dropped
+  private pinned = 0;
+  // Bumped on clear, so loads of the previous game's chunks are ignored
+  private generation = 0;
+  private loadCallback: ((cells: { i: number; j: number }[]) => void) | null =
+    null;
+  private writeErrorCallback: ((error: unknown) => void) | null = null;
+
+  get size(): number {
+    return this.mementos.size;
+  }
+
+  get loadedChunks(): number {
+    return this.mementos.chunkCount;
+  }
+
+  // Keep chunks in `storage`, with at most `maxChunks` of them in memory
+  setStorage(storage: ChunkStorage, maxChunks: number) {
+    this.storage = storage;
+    this.maxChunks = maxChunks;
+    this.evict();
+  }
+
+  // Chunks of the current game that storage holds, e.g. after loading or
+  // storing a whole game; the ones in memory can be dropped from then on
+  setStoredChunks(keys: Iterable<number>) {
+    for (const key of keys) {
+      if (this.mementos.hasChunk(key)) {
+        this.persisted.add(key);
+      } else if (!this.loading.has(key)) {
+        this.stored.add(key);
+      }
+    }
+    this.evict();
+  }
+
+  // Observe cells whose chunk arrived from storage, e.g. to redraw them
+  onLoad(callback: (cells: { i: number; j: number }[]) => void) {
+    this.loadCallback = callback;
+  }
+
+  // Observe failed writes, e.g. when storage is full; the chunk stays in
+  // memory and is written again with its next change
+  onWriteError(callback: (error: unknown) => void) {
+    this.writeErrorCallback = callback;
+  }
+
+  save(i: number, j: number, cell: Cell, modifiedAt: number) {
+    this.mementos.set(i, j, new CellMemento(cell, modifiedAt));
+    const key = chunkKey(i, j);
+    if (this.stored.has(key) || this.loading.has(key)) {
+      // Written once the rest of the chunk is back
+      this.load(key);
+    } else {
+      this.write(key);
+    }
+  }
+
+  // Undefined for unmodified cells, and for cells whose chunk is still in
+  // storage, which starts loading it
+  get(i: number, j: number): CellMemento | undefined {
+    if (this.storage) {
+      const key = chunkKey(i, j);
+      if (this.stored.has(key)) {
+        this.load(key);
+      } else if (this.persisted.delete(key)) {
+        this.persisted.add(key);
+      }
+    }
+    return this.mementos.get(i, j);
+  }
+
+  // Whether get() knows the cell's real state
+  isLoaded(i: number, j: number): boolean {
+    const key = chunkKey(i, j);
+    return !this.stored.has(key) && !this.loading.has(key);
+  }
+
+  // Modified cells in memory within the range; stored chunks in the range
+  // start loading
+  inRange(range: CellRange): GridEntry<CellMemento>[] {
+    for (const key of chunksInRange(range)) {
+      if (this.stored.has(key)) this.load(key);
+    }
+    return this.mementos.inRange(range);
+  }
+
+  // Run `use` with every chunk in memory, e.g. to serialize the whole game
+  async withAllLoaded<T>(use: () => T): Promise<T> {
+    this.pinned++;
+    try {
+      for (const key of this.stored) this.load(key);
+      await Promise.all(this.loading.values());
+      return use();
+    } finally {
+      this.pinned--;
+      this.evict();
+    }
+  }
+
+  // Clear all saved mementos
+  clear(): void {
+    this.generation++;
+    this.mementos.clear();
+    this.stored.clear();
+    this.loading.clear();
+    this.persisted.clear();
+    this.writing.clear();
+  }
+
+  loadEntries(entries: [string, CellMemento][]) {
+    for (const [id, mem] of entries) {
+      const { i, j } = parseCellKey(id);
+      this.mementos.set(i, j, mem);
+    }
+  }
+
+  // Mementos in memory; see withAllLoaded
+  toSerializable(): [string, CellMemento][] {
+    return this.mementos.entries().map(({ i, j, value }) => [cellKey(i, j), {
+      token: value.token && { ...value.token },
+      modifiedAt: value.modifiedAt,
+    }]);
+  }
+
+  // --- Storage ---
+
+  private write(key: number) {
+    if (!this.storage) return;
+    // Not safe to drop until this write is stored
+    this.persisted.delete(key);
+    this.writing.set(key, (this.writing.get(key) ?? 0) + 1);
+    const generation = this.generation;
+    this.storage.putChunk(
+      key,
+      this.mementos.getChunk(key).map(([index, memento]) => [index, {
+        ...memento,
+      }]),
+    ).then(
+      () => this.written(key, generation, null),
+      (error) => this.written(key, generation, error),
+    );
+  }
+
+  // Only the latest write of a chunk decides whether storage has it
+  private written(key: number, generation: number, error: unknown) {
+    if (generation !== this.generation) return;
+    const pending = this.writing.get(key)! - 1;
+    if (pending > 0) {
+      this.writing.set(key, pending);
+      if (error) this.writeErrorCallback?.(error);
+      return;
+    }
+    this.writing.delete(key);
+    if (error) {
+      this.writeErrorCallback?.(error);
+    } else if (this.mementos.hasChunk(key)) {
+      this.persisted.add(key);
+      this.evict();
+    }
+  }
+
+  private load(key: number): Promise<void> {
+    const pending = this.loading.get(key);
+    if (pending) return pending;
+
+    this.stored.delete(key);
+    const loaded = this.loadChunk(key, this.generation);
+    this.loading.set(key, loaded);
+    return loaded;
+  }
+
+  private async loadChunk(key: number, generation: number) {
+    let cells: StoredChunk;
+    try {
+      cells = await this.storage!.getChunk(key);
+    } catch (error) {
+      // Leave the chunk in storage to try again on the next lookup
+      console.error("Could not load cells:", error);
+      if (generation === this.generation) {
+        this.loading.delete(key);
+        this.stored.add(key);
+      }
+      return;
+    }
+    if (generation !== this.generation) return;
+
+    // Cells saved while loading are newer than the stored ones
+    const changed = this.mementos.hasChunk(key);
+    const arrived: { i: number; j: number }[] = [];
+    for (const [index, memento] of cells) {
+      const { i, j } = chunkCell(key, index);
+      if (!this.mementos.has(i, j)) {
+        this.mementos.set(i, j, memento);
+        arrived.push({ i, j });
+      }
+    }
+    this.loading.delete(key);
+    if (changed) {
+      this.write(key);
+    } else {
+      this.persisted.add(key);
+      this.evict();
+    }
+    this.loadCallback?.(arrived);
+  }
+
+  // Drop least recently used chunks beyond the limit; storage has them
+  private evict() {
+    if (this.pinned > 0) return;
+    for (const key of this.persisted) {
+      if (this.mementos.chunkCount <= this.maxChunks) break;
+      this.mementos.deleteChunk(key);
+      this.persisted.delete(key);
+      this.stored.add(key);
+    }
+  }
+}
+
+// === Geometry ===
+
+// Mean earth radius used by Leaflet's distance calculations
+const EARTH_RADIUS_METERS = 6371000;
+const METERS_PER_DEGREE = EARTH_RADIUS_METERS * Math.PI / 180;
+
+export function distanceMeters(a: LatLng, b: LatLng): number {
+  const rad = Math.PI / 180;
+  const lat1 = a.lat * rad;
+  const lat2 = b.lat * rad;
+  const sinDLat = Math.sin((b.lat - a.lat) * rad / 2);
+  const sinDLng = Math.sin((b.lng - a.lng) * rad / 2);
+  const h = sinDLat * sinDLat +
+    Math.cos(lat1) * Math.cos(lat2) * sinDLng * sinDLng;
+  return 2 * EARTH_RADIUS_METERS * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+export function cellKey(i: number, j: number): string {
+  return `${i},${j}`;
+}
+
+export function parseCellKey(cellID: string): { i: number; j: number } {
+  const [i, j] = cellID.split(",").map(Number);
+  return { i, j };
+}
+
+// === Game Engine ===
+
+export class GameEngine {
+  readonly modifiedCells = new ModifiedCells();
+  playerPosition: LatLng;
+  readonly inventory: Inventory;
+  readonly history: ActionHistory;
+  victoryState = false;
+  readonly stats = new StatsTracker();
+  // Cells the player has seen; the rest stay under the fog of war
+  readonly revealed = new CellSet();
+  private unlocked = new Set<string>();
+  // World seed mixed into every spawning luck call
+  private worldSeed = "";
+  private worldLuck: LuckFunction = luck;
+
+  // Flyweight cache of live cells, and when each one next changes by itself
+  // (regrowing, decaying or a world event)
+  private grid = new ChunkedGrid<TimedCell>();
+  private loadCallback: ((events: GameEvent[]) => void) | null = null;
+
+  // `clock` gives the current time; tests and replays can supply their own
+  constructor(
+    readonly rules: GameRules,
+    private clock: () => number = Date.now,
+  ) {
+    this.playerPosition = { lat: rules.origin.lat, lng: rules.origin.lng };
+    this.inventory = new Inventory(rules.inventoryCapacity);
+    this.history = new ActionHistory(rules.historyLimit);
+
+    // Cells derived before their chunk came back from storage were wrong
+    this.modifiedCells.onLoad((cells) => {
+      const events = cells.map(({ i, j }): GameEvent => {
+        this.releaseCell(i, j);
+        return { type: "cellChanged", i, j, cell: { ...this.getCell(i, j) } };
+      });
+      if (events.length > 0) this.loadCallback?.(events);
+    });
+  }
+
+  // --- Geometry ---
+
+  // Cell indices passed in and returned here may lie past the antimeridian;
+  // everything about a cell's state goes through wrapCell first (see
+  // gridProjection.ts)
+
+  getCellCenter(i: number, j: number): LatLng {
+    return this.rules.projection.cellCenter(i, j);
+  }
+
+  getCellPolygon(i: number, j: number): LatLng[] {
+    return this.rules.projection.cellPolygon(i, j);
+  }
+
+  cellsInBounds(southWest: LatLng, northEast: LatLng): CellRange {
+    return this.rules.projection.cellsInBounds(southWest, northEast);
+  }
+
+  // Neighbor of a cell toward a compass direction (signs of north and east)
+  neighborCell(
+    i: number,
+    j: number,
+    north: number,
+    east: number,
+  ): { i: number; j: number } {
+    return this.rules.projection.neighborCell(i, j, north, east);
+  }
+
+  latLngToCell(lat: number, lng: number): { i: number; j: number } {
+    return this.rules.projection.cellAt(lat, lng);
+  }
+
+  // Canonical indices of a cell, the same however many times the world
+  // has been walked around
+  wrapCell(i: number, j: number): { i: number; j: number } {
+    return this.rules.projection.wrapCell(i, j);
+  }
+
+  getDistanceFromPlayer(i: number, j: number): number {
+    return distanceMeters(this.playerPosition, this.getCellCenter(i, j));
+  }
+
+  isInRange(i: number, j: number): boolean {
+    return this.getDistanceFromPlayer(i, j) <= this.rules.playerRangeMeters;
+  }
+
+  // --- World ---
+
+  get seed(): string {
+    return this.worldSeed;
+  }
+
+  private setSeed(seed: string) {
+    this.worldSeed = seed;
+    this.worldLuck = seededLuck(luck, seed);
+    this.clearLiveCells();
+  }
+
+  // --- Player ---
+
+  // Walk the player to a new position, tracking distance and visited cells.
+  // Walks stop at the poles and wrap around the antimeridian, so positions
+  // stay valid latitudes and longitudes.
+  movePlayer(lat: number, lng: number): GameEvent[] {
+    const from = this.playerPosition;
+    this.playerPosition = {
+      lat: Math.max(-90, Math.min(90, lat)),
+      lng: wrapLongitude(lng, 0),
+    };
+    const cell = this.latLngToCell(
+      this.playerPosition.lat,
+      this.playerPosition.lng,
+    );
+    const { i, j } = this.wrapCell(cell.i, cell.j);
+    this.stats.recordMove(distanceMeters(from, this.playerPosition), i, j);
+    this.revealAroundPlayer();
+    return this.checkAchievements();
+  }
+
+  // Put the player somewhere without walking there, e.g. when loading
+  private placePlayer(position: LatLng) {
+    this.playerPosition = { lat: position.lat, lng: position.lng };
+  }
+
+  // Lift the fog from every cell in range of the player
+  private revealAroundPlayer() {
+    const { lat, lng } = this.playerPosition;
+    const { i, j } = this.latLngToCell(lat, lng);
+    // Cells in a box around the player's range, whatever their shape;
+    // degrees of longitude shrink toward the poles
+    const latRange = this.rules.playerRangeMeters / METERS_PER_DEGREE;
+    const farthestLat = Math.min(Math.abs(lat) + latRange, 90);
+    const lngRange = Math.min(
+      latRange / Math.cos(farthestLat * Math.PI / 180),
+      180,
+    );
+    const box = this.cellsInBounds(
+      { lat: lat - latRange, lng: lng - lngRange },
+      { lat: lat + latRange, lng: lng + lngRange },
+    );
+    const max = MAX_REVEAL_RADIUS_CELLS;
+    const iMax = Math.min(box.iMax, i + max);
+    const jMax = Math.min(box.jMax, j + max);
+    for (let ci = Math.max(box.iMin, i - max); ci <= iMax; ci++) {
+      for (let cj = Math.max(box.jMin, j - max); cj <= jMax; cj++) {
+        if (this.isInRange(ci, cj)) {
+          const cell = this.wrapCell(ci, cj);
+          this.revealed.add(cell.i, cell.j);
+        }
+      }
+    }
+  }
+
+  // Whether a cell has ever been in the player's range (fog of war)
+  isRevealed(i: number, j: number): boolean {
+    const cell = this.wrapCell(i, j);
+    return this.revealed.has(cell.i, cell.j);
+  }
+
+  hasVisited(i: number, j: number): boolean {
+    const cell = this.wrapCell(i, j);
+    return this.stats.hasVisited(cell.i, cell.j);
+  }
+
+  // --- Cells ---
+
+  // Look up a cell as it is now, restoring it from a memento or spawning it
+  // with luck. Live cells are rebuilt once their time to change comes.
+  getCell(i: number, j: number): Cell {
+    ({ i, j } = this.wrapCell(i, j));
+    const now = this.clock();
+    const live = this.grid.get(i, j);
+    if (live && now < live.changesAt) return live.cell;
+
+    const derived = this.deriveCell(i, j, now);
+    this.grid.set(i, j, derived);
+    return derived.cell;
+  }
+
+  // Read a cell's state without keeping it live, e.g. for overview maps
+  peekCell(i: number, j: number): Cell {
+    ({ i, j } = this.wrapCell(i, j));
+    const now = this.clock();
+    const live = this.grid.get(i, j);
+    if (live && now < live.changesAt) return live.cell;
+    return this.deriveCell(i, j, now).cell;
+  }
+
+  // Drop a live cell so it can be rebuilt from mementos later
+  releaseCell(i: number, j: number) {
+    ({ i, j } = this.wrapCell(i, j));
+    this.grid.delete(i, j);
+  }
+
+  private clearLiveCells() {
+    this.grid.clear();
+  }
+
+  // Modified cells within the range, e.g. tokens players left in view. A
+  // range across the antimeridian is looked up on both sides of it.
+  modifiedInRange(range: CellRange): GridEntry<CellMemento>[] {
+    const shifts = new Set([
+      this.wrapCell(range.iMin, range.jMin).j - range.jMin,
+      this.wrapCell(range.iMin, range.jMax).j - range.jMax,
+    ]);
+    return Array.from(shifts).flatMap((shift) =>
+      this.modifiedCells.inRange({
+        ...range,
+        jMin: range.jMin + shift,
+        jMax: range.jMax + shift,
+      }).map((entry) => ({ ...entry, j: entry.j - shift }))
+    );
+  }
+
+  // Report cells that change once their chunk of modified cells loads from
+  // storage (see ModifiedCells)
+  onCellsLoaded(callback: (events: GameEvent[]) => void) {
+    this.loadCallback = callback;
+  }
+
+  // Rebuild live cells whose time to change has come, e.g. on a timer, and
+  // report the ones that look different now
+  advanceTime(): GameEvent[] {
+    const now = this.clock();
+    const events: GameEvent[] = [];
+    for (const { i, j, value } of this.grid.entries()) {
+      if (value.changesAt > now) continue;
+      const before = value.cell.token;
+      const cell = this.getCell(i, j);
+      if (JSON.stringify(before) !== JSON.stringify(cell.token)) {
+        events.push({ type: "cellChanged", i, j, cell: { ...cell } });
+      }
+    }
+    return events;
+  }
+
+  // Events running now, e.g. to show in the UI
+  get activeEvents(): EventOccurrence[] {
+    return activeOccurrences(this.rules.events, this.clock());
+  }
+
+  // --- Time ---
+
+  // A cell's state at `now`: its last change plus the time since then
+  private deriveCell(i: number, j: number, now: number): TimedCell {
+    const memento = this.modifiedCells.get(i, j);
+    if (!memento) {
+      return this.spawnCell(i, j, now);
+    }
+
+    // Tokens left in cells stay until they decay
+    let emptySince = memento.modifiedAt;
+    if (memento.token) {
+      const token = { ...memento.token };
+      if (this.rules.decayMs === 0) {
+        return { cell: { token }, changesAt: Infinity };
+      }
+      const decaysAt = memento.modifiedAt + this.rules.decayMs;
+      if (now < decaysAt) {
+        return { cell: { token }, changesAt: decaysAt };
+      }
+      emptySince = decaysAt;
+    }
+    return this.regrowCell(i, j, emptySince, now);
+  }
+
+  // Empty cells regrow at the start of the first regeneration epoch (a
+  // fixed slice of world time) after the cooldown, always with a token drawn
+  // with luck for that epoch; everyone sees the same regrown token
+  private regrowCell(
+    i: number,
+    j: number,
+    emptySince: number,
+    now: number,
+  ): TimedCell {
+    const period = this.rules.regenerationMs;
+    if (period === 0) return { cell: { token: null }, changesAt: Infinity };
+
+    const epoch = Math.ceil((emptySince + period) / period);
+    if (now < epoch * period) {
+      return { cell: { token: null }, changesAt: epoch * period };
+    }
+    const token = this.rules.spawnRule.spawnToken(
+      i,
+      j,
+      seededLuck(this.worldLuck, `epoch ${epoch}`),
+    );
+    return { cell: { token }, changesAt: Infinity };
+  }
+
+  // Unmodified cells hold the world's spawn, and empty ones get extra rolls
+  // while events run
+  private spawnCell(i: number, j: number, now: number): TimedCell {
+    const cell = this.rules.spawnRule.spawn(i, j, this.worldLuck);
+    if (cell.token || this.rules.events.length === 0) {
+      return { cell, changesAt: Infinity };
+    }
+
+    for (
+      const { event, start, end } of activeOccurrences(this.rules.events, now)
+    ) {
+      for (let roll = 0; roll < event.extraRolls; roll++) {
+        const extra = this.rules.spawnRule.spawn(
+          i,
+          j,
+          seededLuck(this.worldLuck, `${event.name} ${start} ${roll}`),
+        );
+        if (extra.token) return { cell: extra, changesAt: end };
+      }
+    }
+    return { cell, changesAt: nextEventBoundary(this.rules.events, now) };
+  }
+
+  // Record a changed cell and return it as it is now, which differs for a
+  // remote change old enough to have regrown or decayed
+  private saveCell(
+    i: number,
+    j: number,
+    cell: Cell,
+    modifiedAt = this.clock(),
+  ): Cell {
+    const canonical = this.wrapCell(i, j);
+    this.modifiedCells.save(canonical.i, canonical.j, cell, modifiedAt);
+    this.releaseCell(i, j);
+    return this.getCell(i, j);
+  }
+
+  // --- Interactions ---
+
+  inspectCell(i: number, j: number): CellInteraction {
+    if (!this.isInRange(i, j)) {
+      return { kind: "tooFar" };
+    }
+    const canonical = this.wrapCell(i, j);
+    if (!this.modifiedCells.isLoaded(canonical.i, canonical.j)) {
+      // Looking the cell up starts loading its chunk
+      this.modifiedCells.get(canonical.i, canonical.j);
+      return { kind: "loading" };
+    }
+
+    const cell = this.getCell(i, j);
+    const held = this.inventory.selected;
+    if (cell.token) {
+      if (held === null) {
+        return { kind: "pickUp", cellToken: cell.token };
+      }
+      const recipes = findRecipes(this.rules.recipes, held, cell.token);
+      if (recipes.length > 0) {
+        return { kind: "craft", cellToken: cell.token, recipes };
+      }
+      return { kind: "cannotCraft", cellToken: cell.token };
+    }
+
+    if (held === null) {
+      return { kind: "empty" };
+    }
+    return { kind: "place", inventoryToken: held };
+  }
+
+  pickUp(i: number, j: number): ActionResult {
+    if (this.inspectCell(i, j).kind !== "pickUp") {
+      return { ok: false, reason: "Nothing to pick up here." };
+    }
+
+    const cell = this.getCell(i, j);
+    const before = this.snapshot(cell);
+    this.inventory.selected = cell.token;
+    cell.token = null;
+    this.stats.recordPickUp();
+    const events = this.commitCell("pickUp", i, j, cell, before);
+    return { ok: true, events: [...events, ...this.checkAchievements()] };
+  }
+
+  // Craft the held token into the cell's token with the named recipe
+  craft(i: number, j: number, recipeName: string): ActionResult {
+    const interaction = this.inspectCell(i, j);
+    const recipe = interaction.kind === "craft"
+      ? interaction.recipes.find((recipe) => recipe.name === recipeName)
+      : undefined;
+    if (!recipe) {
+      return { ok: false, reason: "Cannot be crafted with your token." };
+    }
+
+    const cell = this.getCell(i, j);
+    const before = this.snapshot(cell);
+    const inputValue = cell.token!.value;
+    const output = makeProduct(recipe.output, inputValue);
+    cell.token = output;
+    this.inventory.selected = recipe.byproduct
+      ? makeProduct(recipe.byproduct, inputValue)
+      : null;
+    this.stats.recordCraft(output.value, output.element);
+    const events = this.commitCell("craft", i, j, cell, before);
+    return { ok: true, events: [...events, ...this.checkAchievements()] };
+  }
+
+  place(i: number, j: number): ActionResult {
+    if (this.inspectCell(i, j).kind !== "place") {
+      return { ok: false, reason: "Cannot place a token here." };
+    }
+
+    const cell = this.getCell(i, j);
+    const before = this.snapshot(cell);
+    cell.token = this.inventory.selected;
+    this.inventory.selected = null;
+    this.stats.recordPlace();
+    const events = this.commitCell("place", i, j, cell, before);
+    return { ok: true, events: [...events, ...this.checkAchievements()] };
+  }
+
+  // Cell, inventory and stats captured before an action mutates them
+  private snapshot(cell: Cell): ActionSnapshot {
+    return {
+      cell: new CellMemento(cell, this.clock()),
+      inventory: this.inventory.toSerializable(),
+      stats: this.stats.actionStats(),
+    };
+  }
+
+  // Record a changed cell in mementos and history, and describe the change
+  private commitCell(
+    kind: CellActionKind,
+    i: number,
+    j: number,
+    cell: Cell,
+    before: ActionSnapshot,
+  ): GameEvent[] {
+    const now = this.clock();
+    const current = this.saveCell(i, j, cell, now);
+    this.history.record({
+      kind,
+      i,
+      j,
+      before: before.cell,
+      after: new CellMemento(cell, now),
+      inventoryBefore: before.inventory,
+      inventoryAfter: this.inventory.toSerializable(),
+      statsBefore: before.stats,
+      statsAfter: this.stats.actionStats(),
+    });
+    return [
+      { type: "cellChanged", i, j, cell: { ...current } },
+      this.inventoryChanged(),
+      this.historyChanged(),
+    ];
+  }
+
+  private historyChanged(): GameEvent {
+    return {
+      type: "historyChanged",
+      canUndo: this.history.canUndo,
+      canRedo: this.history.canRedo,
+    };
+  }
+
+  private inventoryChanged(): GameEvent {
+    return {
+      type: "inventoryChanged",
+      inventory: this.inventory.toSerializable(),
+    };
+  }
+
+  // --- Achievements ---
+
+  get unlockedAchievements(): Achievement[] {
+    return this.rules.achievements.filter(({ id }) => this.unlocked.has(id));
+  }
+
+  // Unlock achievements newly earned by the stats; the first goal reached
+  // wins the game
+  private checkAchievements(): GameEvent[] {
+    const events: GameEvent[] = [];
+    for (const achievement of this.rules.achievements) {
+      if (
+        this.unlocked.has(achievement.id) ||
+        !achievement.isUnlocked(this.stats, this.rules)
+      ) {
+        continue;
+      }
+      this.unlocked.add(achievement.id);
+      events.push({ type: "achievementUnlocked", achievement });
+      if (achievement.goal && !this.victoryState) {
+        this.victoryState = true;
+        events.push({ type: "victory", goal: achievement });
+      }
+    }
+    return events;
+  }
+
+  // --- Inventory ---
+
+  selectSlot(index: number): ActionResult {
+    if (!this.inventory.select(index)) {
+      return { ok: false, reason: `There is no inventory slot ${index + 1}.` };
+    }
+    return { ok: true, events: [this.inventoryChanged()] };
+  }
+
+  // Gifts move tokens in and out of the game outside of cell actions. Undo
+  // restores whole inventories, so history is cleared to keep an undo from
+  // bringing a sent token back or dropping a received one.
+
+  sendSelected(): ActionResult {
+    if (this.inventory.selected === null) {
+      return { ok: false, reason: "Select a token to send first." };
+    }
+    this.inventory.selected = null;
+    this.history.clear();
+    return {
+      ok: true,
+      events: [this.inventoryChanged(), this.historyChanged()],
+    };
+  }
+
+  // Put a received token in the selected slot, or the first empty one
+  receiveToken(token: Token): ActionResult {
+    const slots = this.inventory.getSlots();
+    const index = slots[this.inventory.selectedSlot] === null
+      ? this.inventory.selectedSlot
+      : slots.indexOf(null);
+    if (index === -1) {
+      return { ok: false, reason: "Your inventory is full." };
+    }
+    this.inventory.select(index);
+    this.inventory.selected = { ...token };
+    this.history.clear();
+    return {
+      ok: true,
+      events: [this.inventoryChanged(), this.historyChanged()],
+    };
+  }
+
+  // --- History ---
+
+  undo(): ActionResult {
+    const action = this.history.undo();
+    if (!action) {
+      return { ok: false, reason: "Nothing to undo." };
+    }
+    return {
+      ok: true,
+      events: this.applyActionSide(
+        action,
+        action.before,
+        action.inventoryBefore,
+        action.statsBefore,
+      ),
+    };
+  }
+
+  redo(): ActionResult {
+    const action = this.history.redo();
+    if (!action) {
+      return { ok: false, reason: "Nothing to redo." };
+    }
+    return {
+      ok: true,
+      events: this.applyActionSide(
+        action,
+        action.after,
+        action.inventoryAfter,
+        action.statsAfter,
+      ),
+    };
+  }
+
+  // Put a cell, the inventory and the stats back to one side of a recorded
+  // action
+  private applyActionSide(
+    action: CellAction,
+    memento: CellMemento,
+    inventory: InventoryState,
+    stats: ActionStats,
+  ): GameEvent[] {
+    // The cell changes again now, so regrowing and decay start over
+    const { i, j } = action;
+    const cell = this.saveCell(i, j, {
+      token: memento.token && { ...memento.token },
+    });
+    this.inventory.load(inventory);
+    this.stats.loadActionStats(stats);
+    return [
+      { type: "cellChanged", i, j, cell: { ...cell } },
+      this.inventoryChanged(),
+      this.historyChanged(),
+    ];
+  }
+
+  // --- Shared worlds ---
+
+  // Take another player's change to a cell, outside of the history
+  applyRemoteCell(i: number, j: number, memento: CellMemento): GameEvent[] {
+    const cell = this.saveCell(
+      i,
+      j,
+      { token: memento.token && { ...memento.token } },
+      memento.modifiedAt,
+    );
+    return [{ type: "cellChanged", i, j, cell: { ...cell } }];
+  }
+
+  // Roll back the latest local action on a cell after the sync server
+  // refused it, then take the server's version of the cell. Only that
+  // action's token moves are reverted, so later actions keep theirs. The
+  // server's cell comes first in the events; a later cellChanged is a local
+  // change, made when a token had nowhere else to go.
+  rejectAction(i: number, j: number, memento: CellMemento): GameEvent[] {
+    const action = this.history.toSerializable().past.findLast((action) =>
+      action.i === i && action.j === j
+    );
+    const events = this.applyRemoteCell(i, j, memento);
+    if (action) {
+      this.history.discard(action);
+      events.push(...this.revertInventory(action));
+    }
+    return [...events, this.inventoryChanged(), this.historyChanged()];
+  }
+
+  // Take back the token an action put in its slot and return the one it
+  // took out: to that slot, another empty one, or else its cell if the
+  // cell is empty
+  private revertInventory(action: CellAction): GameEvent[] {
+    const slot = action.inventoryBefore.selectedIndex;
+    const added = action.inventoryAfter.slots[slot];
+    const taken = action.inventoryBefore.slots[slot];
+    if (added) this.inventory.remove(added, slot);
+    if (!taken || this.inventory.add(taken, slot)) return [];
+
+    const { i, j } = action;
+    if (this.getCell(i, j).token) return [];
+    const cell = this.saveCell(i, j, { token: { ...taken } });
+    return [{ type: "cellChanged", i, j, cell: { ...cell } }];
+  }
+
+  // --- Lifecycle ---
+
+  toState(): EngineState {
+    return {
+      ...this.toStateWithoutCells(),
+      modifiedCells: this.modifiedCells.toSerializable(),
+    };
+  }
+
+  // Everything but the modified cells, which can be stored separately
+  toStateWithoutCells(): Omit<EngineState, "modifiedCells"> {
+    return {
+      seed: this.worldSeed,
+      playerPosition: { ...this.playerPosition },
+      inventory: this.inventory.toSerializable(),
+      victoryState: this.victoryState,
+      history: this.history.toSerializable(),
+      stats: this.stats.toSerializable(),
+      achievements: Array.from(this.unlocked),
+      revealedCells: this.revealed.toSerializable(),
+    };
+  }
+
+  // Replace the saved world state, e.g. after loading a save
+  loadState(state: EngineState) {
+    this.setSeed(state.seed);
+    this.placePlayer(state.playerPosition);
+    this.inventory.load(state.inventory);
+    this.victoryState = state.victoryState;
+    this.stats.load(state.stats);
+    this.unlocked = new Set(state.achievements);
+    this.revealed.load(state.revealedCells);
+    this.modifiedCells.clear();
+    this.modifiedCells.loadEntries(state.modifiedCells);
+    this.history.load(state.history);
+    this.clearLiveCells();
+  }
+
+  // Start a fresh game in the world generated from the given seed
+  reset(seed: string) {
+    this.setSeed(seed);
+    this.modifiedCells.clear();
+    this.inventory.clear();
+    this.history.clear();
+    this.victoryState = false;
+    this.stats.clear();
+    this.unlocked.clear();
+    this.revealed.clear();
+    this.placePlayer(this.rules.origin);
+  }
+}
@@ -0,0 +1,334 @@
+// Tests for the cell interactions behind handleCellClick in main.ts: every
+// kind inspectCell reports, and the actions that follow from them.
+//
+//   deno task test
+
+import assert from "node:assert/strict";
+
+import { chunkKey } from "./chunkedGrid.ts";
+import type { Token } from "./crafting.ts";
+import { DEFAULT_CONFIG, PRESETS, toGameRules } from "./gameConfig.ts";
+import {
+  type Cell,
+  CellMemento,
+  type ChunkStorage,
+  GameEngine,
+  type StoredChunk,
+} from "./gameEngine.ts";
+
+const NOW = 1_000_000;
+
+const fire2: Token = { value: 2, element: "fire" };
+const water2: Token = { value: 2, element: "water" };
+const earth4: Token = { value: 4, element: "earth" };
+
+// An engine at the origin whose only tokens are the given ones, keyed "i,j",
+// and whose clock never moves
+function makeEngine(tokens: Record<string, Token> = {}): GameEngine {
+  const rules = {
+    ...toGameRules(DEFAULT_CONFIG),
+    spawnRule: {
+      spawn: (i: number, j: number): Cell => ({
+        token: tokens[`${i},${j}`] ?? null,
+      }),
+      spawnToken: () => fire2,
+    },
+  };
+  return new GameEngine(rules, () => NOW);
+}
+
+// Put a token in the selected inventory slot
+function hold(engine: GameEngine, token: Token) {
+  assert.ok(engine.receiveToken(token).ok);
+}
+
+// Storage whose chunks never finish loading
+const PENDING_STORAGE: ChunkStorage = {
+  putChunk: () => Promise.resolve(),
+  getChunk: () => new Promise<StoredChunk>(() => {}),
+};
+
+// --- inspectCell ---
+
+Deno.test("inspectCell: a cell out of range is too far", () => {
+  const engine = makeEngine({ "1000,0": fire2 });
+  assert.deepEqual(engine.inspectCell(1000, 0), { kind: "tooFar" });
+});
+
+Deno.test("inspectCell: a cell whose chunk is stored is loading", () => {
+  const engine = makeEngine();
+  engine.modifiedCells.setStorage(PENDING_STORAGE, 8);
+  engine.modifiedCells.setStoredChunks([chunkKey(0, 0)]);
+  assert.deepEqual(engine.inspectCell(0, 0), { kind: "loading" });
+});
+
+Deno.test("inspectCell: a token with empty hands can be picked up", () => {
+  const engine = makeEngine({ "0,0": fire2 });
+  assert.deepEqual(engine.inspectCell(0, 0), {
+    kind: "pickUp",
+    cellToken: fire2,
+  });
+});
+
+Deno.test("inspectCell: matching tokens list the recipes for them", () => {
+  const engine = makeEngine({ "0,0": water2 });
+  hold(engine, fire2);
+  const interaction = engine.inspectCell(0, 0);
+  assert.ok(interaction.kind === "craft");
+  assert.deepEqual(interaction.cellToken, water2);
+  assert.deepEqual(
+    interaction.recipes.map(({ name }) => name).sort(),
+    ["Quench", "Steam"],
+  );
+});
+
+Deno.test("inspectCell: tokens of different values cannot craft", () => {
+  const engine = makeEngine({ "0,0": earth4 });
+  hold(engine, fire2);
+  assert.deepEqual(engine.inspectCell(0, 0), {
+    kind: "cannotCraft",
+    cellToken: earth4,
+  });
+});
+
+Deno.test("inspectCell: an empty cell with empty hands is empty", () => {
+  const engine = makeEngine();
+  assert.deepEqual(engine.inspectCell(0, 0), { kind: "empty" });
+});
+
+Deno.test("inspectCell: an empty cell takes the held token", () => {
+  const engine = makeEngine();
+  hold(engine, fire2);
+  assert.deepEqual(engine.inspectCell(0, 0), {
+    kind: "place",
+    inventoryToken: fire2,
+  });
+});
+
+// --- pickUp ---
+
+Deno.test("pickUp moves the cell's token into the inventory", () => {
+  const engine = makeEngine({ "0,0": fire2 });
+  const result = engine.pickUp(0, 0);
+  assert.ok(result.ok);
+  assert.deepEqual(engine.inventory.selected, fire2);
+  assert.equal(engine.getCell(0, 0).token, null);
+  assert.equal(engine.modifiedCells.get(0, 0)?.modifiedAt, NOW);
+  assert.ok(
+    result.events.some((event) =>
+      event.type === "cellChanged" && event.i === 0 && event.j === 0
+    ),
+  );
+});
+
+Deno.test("pickUp fails with a token already held", () => {
+  const engine = makeEngine({ "0,0": fire2 });
+  hold(engine, water2);
+  assert.deepEqual(engine.pickUp(0, 0), {
+    ok: false,
+    reason: "Nothing to pick up here.",
+  });
+  assert.deepEqual(engine.getCell(0, 0).token, fire2);
+});
+
+Deno.test("pickUp fails out of range and on empty cells", () => {
+  const engine = makeEngine({ "1000,0": fire2 });
+  assert.equal(engine.pickUp(1000, 0).ok, false);
+  assert.equal(engine.pickUp(0, 0).ok, false);
+  assert.equal(engine.inventory.selected, null);
+});
+
+// --- craft ---
+
+Deno.test("craft replaces the cell token and leaves the byproduct", () => {
+  const engine = makeEngine({ "0,0": water2 });
+  hold(engine, fire2);
+  assert.ok(engine.craft(0, 0, "Quench").ok);
+  assert.deepEqual(engine.getCell(0, 0).token, {
+    value: 4,
+    element: "neutral",
+  });
+  assert.deepEqual(engine.inventory.selected, { value: 1, element: "water" });
+});
+
+Deno.test("craft without a byproduct empties the held slot", () => {
+  const engine = makeEngine({ "0,0": fire2 });
+  hold(engine, fire2);
+  assert.ok(engine.craft(0, 0, "Merge").ok);
+  assert.deepEqual(engine.getCell(0, 0).token, { value: 4, element: "fire" });
+  assert.equal(engine.inventory.selected, null);
+});
+
+Deno.test("craft fails with a recipe that does not fit", () => {
+  const engine = makeEngine({ "0,0": water2 });
+  hold(engine, fire2);
+  assert.deepEqual(engine.craft(0, 0, "Merge"), {
+    ok: false,
+    reason: "Cannot be crafted with your token.",
+  });
+  assert.deepEqual(engine.getCell(0, 0).token, water2);
+  assert.deepEqual(engine.inventory.selected, fire2);
+});
+
+Deno.test("craft fails without a craft interaction", () => {
+  const engine = makeEngine({ "0,0": earth4, "1000,0": fire2 });
+  assert.equal(engine.craft(0, 0, "Merge").ok, false);
+  hold(engine, fire2);
+  assert.equal(engine.craft(0, 0, "Merge").ok, false);
+  assert.equal(engine.craft(1000, 0, "Merge").ok, false);
+  assert.deepEqual(engine.getCell(0, 0).token, earth4);
+});
+
+// --- place ---
+
+Deno.test("place puts the held token in an empty cell", () => {
+  const engine = makeEngine();
+  hold(engine, fire2);
+  const result = engine.place(0, 0);
+  assert.ok(result.ok);
+  assert.deepEqual(engine.getCell(0, 0).token, fire2);
+  assert.equal(engine.inventory.selected, null);
+  assert.ok(engine.history.canUndo);
+});
+
+Deno.test("place fails on a full cell, out of range or with empty hands", () => {
+  const engine = makeEngine({ "0,0": earth4 });
+  assert.equal(engine.place(0, 1).ok, false);
+  hold(engine, fire2);
+  assert.deepEqual(engine.place(0, 0), {
+    ok: false,
+    reason: "Cannot place a token here.",
+  });
+  assert.equal(engine.place(1000, 0).ok, false);
+  assert.deepEqual(engine.inventory.selected, fire2);
+});
+
+// --- movePlayer ---
+
+Deno.test("movePlayer stops at the poles and wraps longitude", () => {
+  for (const projection of ["equirectangular", "equalArea"] as const) {
+    const engine = new GameEngine(
+      toGameRules({ ...DEFAULT_CONFIG, projection }),
+      () => NOW,
+    );
+    engine.movePlayer(90.058, 0);
+    assert.deepEqual(engine.playerPosition, { lat: 90, lng: 0 });
+    engine.movePlayer(-91, 180.5);
+    assert.deepEqual(engine.playerPosition, { lat: -90, lng: -179.5 });
+    engine.movePlayer(10, -180.25);
+    assert.deepEqual(engine.playerPosition, { lat: 10, lng: 179.75 });
+  }
+});
+
+// --- Regrowth ---
+
+Deno.test("every emptied cell regrows a token after the cooldown", () => {
+  for (const preset of ["easy", "normal", "hard"] as const) {
+    const rules = toGameRules(PRESETS[preset]);
+    let now = NOW;
+    const engine = new GameEngine(rules, () => now);
+    for (let i = -20; i < 20; i++) {
+      for (let j = -20; j < 20; j++) {
+        engine.modifiedCells.save(i, j, { token: null }, NOW);
+      }
+    }
+    assert.equal(engine.getCell(0, 0).token, null);
+    now += 2 * rules.regenerationMs;
+    for (let i = -20; i < 20; i++) {
+      for (let j = -20; j < 20; j++) {
+        assert.ok(engine.getCell(i, j).token, `${preset} cell ${i},${j}`);
+      }
+    }
+  }
+});
+
+// --- ModifiedCells storage ---
+
+Deno.test("ModifiedCells keeps chunks in memory until they are stored", async () => {
+  const engine = makeEngine();
+  const cells = engine.modifiedCells;
+  const errors: unknown[] = [];
+  let failing = true;
+  cells.onWriteError((error) => errors.push(error));
+  cells.setStorage({
+    putChunk: () =>
+      failing ? Promise.reject(new Error("full")) : Promise.resolve(),
+    getChunk: () => Promise.resolve([]),
+  }, 1);
+  cells.save(0, 0, { token: fire2 }, NOW);
+  cells.save(100, 0, { token: fire2 }, NOW);
+  await Promise.resolve();
+  assert.equal(cells.loadedChunks, 2);
+  assert.equal(errors.length, 2);
+  // The next change writes the chunk again, and it can then be dropped,
+  // while the chunk that still failed to save stays
+  failing = false;
+  cells.save(0, 1, { token: water2 }, NOW);
+  await Promise.resolve();
+  assert.equal(cells.loadedChunks, 1);
+  assert.deepEqual(cells.get(100, 0)?.token, fire2);
+});
+
+// --- Shared worlds ---
+
+Deno.test("rejectAction only reverts the refused action", () => {
+  const engine = makeEngine({ "0,0": fire2, "0,1": water2 });
+  engine.pickUp(0, 0);
+  engine.selectSlot(1);
+  engine.pickUp(0, 1);
+  const server = new CellMemento({ token: earth4 }, NOW);
+  engine.rejectAction(0, 0, server);
+  assert.deepEqual(engine.inventory.getSlots().slice(0, 2), [null, water2]);
+  assert.deepEqual(engine.getCell(0, 0).token, earth4);
+  assert.equal(engine.getCell(0, 1).token, null);
+});
+
+Deno.test("rejectAction returns a placed token to a free slot", () => {
+  const engine = makeEngine({ "0,1": water2 });
+  hold(engine, fire2);
+  engine.place(0, 0);
+  engine.pickUp(0, 1);
+  engine.rejectAction(0, 0, new CellMemento({ token: earth4 }, NOW));
+  const held = engine.inventory.getSlots().filter((token) => token !== null);
+  assert.deepEqual(held, [water2, fire2]);
+});
+
+Deno.test("rejectAction drops a token back in an empty cell when full", () => {
+  const neighbors = [[0, 1], [1, 0], [0, -1], [-1, 0]];
+  const engine = makeEngine(
+    Object.fromEntries(neighbors.map(([i, j]) => [`${i},${j}`, water2])),
+  );
+  hold(engine, fire2);
+  engine.place(0, 0);
+  assert.equal(engine.inventory.capacity, neighbors.length);
+  neighbors.forEach(([i, j], slot) => {
+    engine.selectSlot(slot);
+    assert.ok(engine.pickUp(i, j).ok);
+  });
+  const events = engine.rejectAction(
+    0,
+    0,
+    new CellMemento({ token: null }, NOW),
+  );
+  assert.deepEqual(engine.getCell(0, 0).token, fire2);
+  assert.ok(events.slice(1).some((event) => event.type === "cellChanged"));
+});
+
+// --- History ---
+
+Deno.test("undo and redo take an action's stats back and forth", () => {
+  const engine = makeEngine({ "0,0": water2 });
+  hold(engine, fire2);
+  assert.ok(engine.craft(0, 0, "Quench").ok);
+  assert.equal(engine.stats.craftsDone, 1);
+  assert.ok(engine.undo().ok);
+  assert.equal(engine.stats.craftsDone, 0);
+  assert.equal(engine.stats.highestCraftedValue, 0);
+  assert.equal(engine.stats.hasCrafted("neutral"), false);
+  assert.ok(engine.redo().ok);
+  assert.equal(engine.stats.craftsDone, 1);
+  // Crafting again after an undo counts once
+  assert.ok(engine.undo().ok);
+  assert.ok(engine.craft(0, 0, "Quench").ok);
+  assert.equal(engine.stats.craftsDone, 1);
+});
@@ -0,0 +1,304 @@
+// Grid systems: how cell indices (i north, j east) map to places on Earth.
+// Both projections here are cylindrical: they differ in how cell size
+// changes with latitude. Cells are squares in projected coordinates, or
+// hexagons with axial indices.
+//
+// Column indices keep counting past ±180° longitude, so a view or a walk
+// across the antimeridian stays continuous; wrapCell gives the cell's
+// canonical indices, which the engine uses for the cell's state.
+
+import type { CellRange } from "./chunkedGrid.ts";
+import type { LatLng } from "./gameEngine.ts";
+
+export const GRID_PROJECTIONS = ["equirectangular", "equalArea"] as const;
+
+export type GridProjectionName = typeof GRID_PROJECTIONS[number];
+
+export function isGridProjectionName(
+  name: unknown,
+): name is GridProjectionName {
+  return GRID_PROJECTIONS.includes(name as GridProjectionName);
+}
+
+export const GRID_TYPES = ["square", "hex"] as const;
+
+export type GridType = typeof GRID_TYPES[number];
+
+export function isGridType(type: unknown): type is GridType {
+  return GRID_TYPES.includes(type as GridType);
+}
+
+export interface GridProjection {
+  readonly name: GridProjectionName;
+  readonly gridType: GridType;
+  cellAt(lat: number, lng: number): { i: number; j: number };
+  // Corners in order around the cell
+  cellPolygon(i: number, j: number): LatLng[];
+  // Fractional indices give points between cell centers, e.g. the corners of
+  // a block of cells at half-cell offsets
+  cellCenter(i: number, j: number): LatLng;
+  // Indices of every cell overlapping a latitude/longitude box, and maybe a
+  // few more around it
+  cellsInBounds(southWest: LatLng, northEast: LatLng): CellRange;
+  // The neighbor one step from a cell toward a compass direction, given by
+  // the signs of `north` and `east`
+  neighborCell(
+    i: number,
+    j: number,
+    north: number,
+    east: number,
+  ): { i: number; j: number };
+  // The same cell with its center within 180° of the origin's longitude
+  wrapCell(i: number, j: number): { i: number; j: number };
+}
+
+const RADIANS = Math.PI / 180;
+const SQRT3 = Math.sqrt(3);
+
+// Longitude moved by whole turns to within 180° of `center`
+export function wrapLongitude(lng: number, center: number): number {
+  return lng - 360 * Math.floor((lng - center + 180) / 360);
+}
+
+// Projected coordinates of a cylindrical grid: x from longitude, y from
+// latitude
+interface CylindricalAxes {
+  toX(lng: number): number;
+  fromX(x: number): number;
+  toY(lat: number): number;
+  fromY(y: number): number;
+}
+
+// The original grid: cells of `tileDegrees` latitude by longitude, which
+// narrow toward the poles
+const EQUIRECTANGULAR_AXES: CylindricalAxes = {
+  toX: (lng) => lng,
+  fromX: (x) => x,
+  toY: (lat) => lat,
+  fromY: (y) => y,
+};
+
+// Lambert cylindrical equal-area projection with its standard parallel at
+// `standardLat`, in radians of arc: every cell covers the same ground area,
+// and cells are squares at the standard parallel. They get taller and
+// narrower away from it, so player range covers about the same number of
+// cells anywhere.
+function equalAreaAxes(standardLat: number): CylindricalAxes {
+  const scale = Math.cos(standardLat * RADIANS);
+  return {
+    toX: (lng) => lng * RADIANS * scale,
+    fromX: (x) => x / scale / RADIANS,
+    toY: (lat) => Math.sin(lat * RADIANS) / scale,
+    fromY: (y) => Math.asin(Math.max(-1, Math.min(1, y * scale))) / RADIANS,
+  };
+}
+
+// Square cells of a fixed size in projected coordinates, counted from the
+// origin
+class SquareGrid implements GridProjection {
+  readonly gridType = "square";
+  private x0: number;
+  private y0: number;
+  // Cells are `cellSize` tall and about as wide: a whole number of columns
+  // fits around the world, so columns repeat exactly across the antimeridian
+  private cellWidth: number;
+  // Columns strictly between these two are canonical
+  private westColumn: number;
+  private eastColumn: number;
+
+  constructor(
+    readonly name: GridProjectionName,
+    private axes: CylindricalAxes,
+    private origin: LatLng,
+    private cellSize: number,
+  ) {
+    this.x0 = axes.toX(origin.lng);
+    this.y0 = axes.toY(origin.lat);
+    const period = axes.toX(360) - axes.toX(0);
+    this.cellWidth = period / Math.round(period / cellSize);
+    this.westColumn = this.cellAt(origin.lat, origin.lng - 180).j;
+    this.eastColumn = this.cellAt(origin.lat, origin.lng + 180).j;
+  }
+
+  cellAt(lat: number, lng: number): { i: number; j: number } {
+    return {
+      i: Math.floor((this.axes.toY(lat) - this.y0) / this.cellSize),
+      j: Math.floor((this.axes.toX(lng) - this.x0) / this.cellWidth),
+    };
+  }
+
+  cellPolygon(i: number, j: number): LatLng[] {
+    return [
+      this.corner(i, j),
+      this.corner(i, j + 1),
+      this.corner(i + 1, j + 1),
+      this.corner(i + 1, j),
+    ];
+  }
+
+  cellCenter(i: number, j: number): LatLng {
+    return this.corner(i + 0.5, j + 0.5);
+  }
+
+  cellsInBounds(southWest: LatLng, northEast: LatLng): CellRange {
+    const min = this.cellAt(southWest.lat, southWest.lng);
+    const max = this.cellAt(northEast.lat, northEast.lng);
+    return { iMin: min.i, iMax: max.i, jMin: min.j, jMax: max.j };
+  }
+
+  neighborCell(
+    i: number,
+    j: number,
+    north: number,
+    east: number,
+  ): { i: number; j: number } {
+    return { i: i + Math.sign(north), j: j + Math.sign(east) };
+  }
+
+  wrapCell(i: number, j: number): { i: number; j: number } {
+    if (this.westColumn < j && j < this.eastColumn) return { i, j };
+    const { lat, lng } = this.cellCenter(i, j);
+    return { i, j: this.cellAt(lat, wrapLongitude(lng, this.origin.lng)).j };
+  }
+
+  private corner(i: number, j: number): LatLng {
+    return {
+      lat: this.axes.fromY(this.y0 + i * this.cellSize),
+      lng: this.axes.fromX(this.x0 + j * this.cellWidth),
+    };
+  }
+}
+
+// Nearest hexagon to fractional axial coordinates, rounding in cube
+// coordinates (q + r + s = 0)
+function roundAxial(q: number, r: number): { i: number; j: number } {
+  const s = -q - r;
+  let roundQ = Math.round(q);
+  let roundR = Math.round(r);
+  const roundS = Math.round(s);
+  const dq = Math.abs(roundQ - q);
+  const dr = Math.abs(roundR - r);
+  const ds = Math.abs(roundS - s);
+  if (dq > dr && dq > ds) {
+    roundQ = -roundR - roundS;
+  } else if (dr > ds) {
+    roundR = -roundQ - roundS;
+  }
+  return { i: roundR, j: roundQ };
+}
+
+// Pointy-top hexagons in projected coordinates with axial indices: i (r)
+// counts rows north and j (q) counts cells east along a row, each row
+// starting half a cell further east than the one below. A hexagon covers
+// about the same area as a square cell of the same size. Its six neighbors
+// are (i, j ± 1), (i + 1, j - 1), (i + 1, j), (i - 1, j) and (i - 1, j + 1).
+class HexGrid implements GridProjection {
+  readonly gridType = "hex";
+  private x0: number;
+  private y0: number;
+  // Distance from a hexagon's center to its corners
+  private radius: number;
+
+  constructor(
+    readonly name: GridProjectionName,
+    private axes: CylindricalAxes,
+    private origin: LatLng,
+    cellSize: number,
+  ) {
+    this.x0 = axes.toX(origin.lng);
+    this.y0 = axes.toY(origin.lat);
+    // A whole number of hexagons fits around the world, so columns repeat
+    // exactly across the antimeridian
+    const width = SQRT3 * cellSize * Math.sqrt(2 / (3 * SQRT3));
+    const period = axes.toX(360) - axes.toX(0);
+    this.radius = period / Math.round(period / width) / SQRT3;
+  }
+
+  cellAt(lat: number, lng: number): { i: number; j: number } {
+    const r = (this.axes.toY(lat) - this.y0) / (1.5 * this.radius);
+    const q = (this.axes.toX(lng) - this.x0) / (SQRT3 * this.radius) - r / 2;
+    return roundAxial(q, r);
+  }
+
+  cellPolygon(i: number, j: number): LatLng[] {
+    const [x, y] = this.centerXY(i, j);
+    return Array.from({ length: 6 }, (_, corner) => {
+      const angle = (30 + 60 * corner) * RADIANS;
+      return this.toLatLng(
+        x + this.radius * Math.cos(angle),
+        y + this.radius * Math.sin(angle),
+      );
+    });
+  }
+
+  cellCenter(i: number, j: number): LatLng {
+    return this.toLatLng(...this.centerXY(i, j));
+  }
+
+  // Rows shift east going north, so the box's corners bound both indices
+  cellsInBounds(southWest: LatLng, northEast: LatLng): CellRange {
+    const corners = [
+      this.cellAt(southWest.lat, southWest.lng),
+      this.cellAt(southWest.lat, northEast.lng),
+      this.cellAt(northEast.lat, southWest.lng),
+      this.cellAt(northEast.lat, northEast.lng),
+    ];
+    const is = corners.map(({ i }) => i);
+    const js = corners.map(({ j }) => j);
+    // Hexagons reach past the rows and columns of their centers
+    return {
+      iMin: Math.min(...is) - 1,
+      iMax: Math.max(...is) + 1,
+      jMin: Math.min(...js) - 1,
+      jMax: Math.max(...js) + 1,
+    };
+  }
+
+  // Hexagons have no neighbor due north or south: those steps zig-zag,
+  // east from even rows and west from odd ones, so two steps go straight
+  neighborCell(
+    i: number,
+    j: number,
+    north: number,
+    east: number,
+  ): { i: number; j: number } {
+    const rows = Math.sign(north);
+    if (rows === 0) return { i, j: j + Math.sign(east) };
+    const eastward = east === 0 ? i % 2 === 0 : east > 0;
+    // Rows shift half a cell east going north, so a step north-east keeps
+    // the column and a step south-east adds one
+    const columns = rows > 0 ? (eastward ? 0 : -1) : (eastward ? 1 : 0);
+    return { i: i + rows, j: j + columns };
+  }
+
+  wrapCell(i: number, j: number): { i: number; j: number } {
+    const { lat, lng } = this.cellCenter(i, j);
+    const wrapped = wrapLongitude(lng, this.origin.lng);
+    return wrapped === lng ? { i, j } : this.cellAt(lat, wrapped);
+  }
+
+  private centerXY(i: number, j: number): [number, number] {
+    return [
+      this.x0 + SQRT3 * this.radius * (j + i / 2),
+      this.y0 + 1.5 * this.radius * i,
+    ];
+  }
+
+  private toLatLng(x: number, y: number): LatLng {
+    return { lat: this.axes.fromY(y), lng: this.axes.fromX(x) };
+  }
+}
+
+export function createGridProjection(
+  name: GridProjectionName,
+  gridType: GridType,
+  origin: LatLng,
+  tileDegrees: number,
+): GridProjection {
+  const [axes, cellSize] = name === "equalArea"
+    ? [equalAreaAxes(origin.lat), tileDegrees * RADIANS]
+    : [EQUIRECTANGULAR_AXES, tileDegrees];
+  return gridType === "hex"
+    ? new HexGrid(name, axes, origin, cellSize)
+    : new SquareGrid(name, axes, origin, cellSize);
+}
@@ -0,0 +1,191 @@
+// Tests for the grid projections at high latitudes and across the
+// antimeridian, for both projections.
+//
+//   deno task test
+
+import assert from "node:assert/strict";
+
+import type { LatLng } from "./gameEngine.ts";
+import {
+  createGridProjection,
+  GRID_PROJECTIONS,
+  type GridProjection,
+} from "./gridProjection.ts";
+
+const TILE_DEGREES = 0.0001;
+// Just east of the antimeridian's west side
+const DATELINE_ORIGIN: LatLng = { lat: 10, lng: 179.99 };
+
+function projection(
+  name: typeof GRID_PROJECTIONS[number],
+  origin: LatLng,
+): GridProjection {
+  return createGridProjection(name, "square", origin, TILE_DEGREES);
+}
+
+// A cell's center lies in that cell, so cellAt undoes cellCenter
+function assertRoundTrips(grid: GridProjection, i: number, j: number) {
+  const { lat, lng } = grid.cellCenter(i, j);
+  assert.deepEqual(grid.cellAt(lat, lng), { i, j }, `cell ${i},${j}`);
+}
+
+for (const name of GRID_PROJECTIONS) {
+  Deno.test(`${name}: cellAt undoes cellCenter near the origin`, () => {
+    const grid = projection(name, { lat: 36.98, lng: -122.06 });
+    for (let i = -500; i <= 500; i += 125) {
+      for (let j = -500; j <= 500; j += 125) {
+        assertRoundTrips(grid, i, j);
+      }
+    }
+  });
+
+  Deno.test(`${name}: cellAt undoes cellCenter at high latitudes`, () => {
+    for (const lat of [60, 75, 85, -85]) {
+      const grid = projection(name, { lat, lng: 0 });
+      for (let i = -1000; i <= 1000; i += 250) {
+        assertRoundTrips(grid, i, 7);
+      }
+      // Cells keep counting north toward the pole
+      const north = grid.cellAt(Math.min(lat + 1, 89.9), 0);
+      assertRoundTrips(grid, north.i, north.j);
+    }
+  });
+
+  Deno.test(`${name}: cells have the same shape along a row`, () => {
+    const grid = projection(name, { lat: 80, lng: 0 });
+    const [a, b] = [grid.cellPolygon(3, 0), grid.cellPolygon(3, 5000)];
+    assert.equal(a.length, 4);
+    assert.ok(Math.abs((a[2].lat - a[0].lat) - (b[2].lat - b[0].lat)) < 1e-9);
+    assert.ok(Math.abs((a[2].lng - a[0].lng) - (b[2].lng - b[0].lng)) < 1e-9);
+  });
+
+  Deno.test(`${name}: wrapCell maps both sides of ±180° together`, () => {
+    const grid = projection(name, DATELINE_ORIGIN);
+    for (const lat of [10.00003, 10.01, 9.99]) {
+      for (const lng of [179.99993, 180.00007, 180.01234, 179.98766]) {
+        const east = grid.cellAt(lat, lng);
+        const west = grid.cellAt(lat, lng - 360);
+        assert.notEqual(east.j, west.j);
+        assert.deepEqual(
+          grid.wrapCell(west.i, west.j),
+          grid.wrapCell(east.i, east.j),
+          `${lat},${lng}`,
+        );
+      }
+    }
+  });
+
+  Deno.test(`${name}: wrapCell keeps cells near the origin`, () => {
+    const grid = projection(name, DATELINE_ORIGIN);
+    const origin = grid.cellAt(DATELINE_ORIGIN.lat, DATELINE_ORIGIN.lng);
+    assert.deepEqual(grid.wrapCell(origin.i, origin.j), origin);
+    // A cell past the antimeridian wraps within 180° of the origin
+    const west = grid.cellAt(10, -179.5);
+    const wrapped = grid.wrapCell(west.i, west.j);
+    const { lng } = grid.cellCenter(wrapped.i, wrapped.j);
+    assert.ok(Math.abs(lng - DATELINE_ORIGIN.lng) <= 180, `lng ${lng}`);
+    assert.deepEqual(grid.wrapCell(wrapped.i, wrapped.j), wrapped);
+  });
+
+  Deno.test(`${name}: cellsInBounds spans the antimeridian`, () => {
+    const grid = projection(name, DATELINE_ORIGIN);
+    // A box from 179.98° to 180.02°, continuing past the antimeridian
+    const range = grid.cellsInBounds(
+      { lat: 9.99, lng: 179.98 },
+      { lat: 10.01, lng: 180.02 },
+    );
+    assert.ok(range.iMin < range.iMax && range.jMin < range.jMax);
+    for (const lng of [179.98001, 179.99999, 180.00001, 180.01999]) {
+      const { i, j } = grid.cellAt(10, lng);
+      assert.ok(range.iMin <= i && i <= range.iMax, `row at ${lng}`);
+      assert.ok(range.jMin <= j && j <= range.jMax, `column at ${lng}`);
+    }
+    // The columns are continuous, not split across ±180°
+    const width = range.jMax - range.jMin + 1;
+    const expected = grid.cellAt(10, 180.02).j - grid.cellAt(10, 179.98).j + 1;
+    assert.equal(width, expected);
+  });
+}
+
+Deno.test("equirectangular: cells match the original grid formulas", () => {
+  const origin = { lat: 36.98, lng: -122.06 };
+  const grid = projection("equirectangular", origin);
+  for (const [lat, lng] of [[36.98005, -122.05995], [37.1234, -122.5]]) {
+    assert.deepEqual(grid.cellAt(lat, lng), {
+      i: Math.floor((lat - origin.lat) / TILE_DEGREES),
+      j: Math.floor((lng - origin.lng) / TILE_DEGREES),
+    });
+  }
+});
+
+Deno.test("equalArea: cells cover the same area at every latitude", () => {
+  const grid = projection("equalArea", { lat: 60, lng: 0 });
+  const area = (i: number) => {
+    const [southWest, , northEast] = grid.cellPolygon(i, 0);
+    const sinSouth = Math.sin(southWest.lat * Math.PI / 180);
+    const sinNorth = Math.sin(northEast.lat * Math.PI / 180);
+    return (sinNorth - sinSouth) * (northEast.lng - southWest.lng);
+  };
+  const reference = area(0);
+  for (const i of [-300_000, -1000, 1000, 100_000]) {
+    assert.ok(Math.abs(area(i) / reference - 1) < 1e-6, `row ${i}`);
+  }
+});
+
+// --- Neighbors ---
+
+Deno.test("square: neighbors step one row and column each way", () => {
+  const grid = projection("equirectangular", { lat: 0, lng: 0 });
+  assert.deepEqual(grid.neighborCell(4, 7, 1, 0), { i: 5, j: 7 });
+  assert.deepEqual(grid.neighborCell(4, 7, -1, 1), { i: 3, j: 8 });
+  assert.deepEqual(grid.neighborCell(4, 7, 0, -2), { i: 4, j: 6 });
+});
+
+Deno.test("hex: every compass step lands on an adjacent hexagon", () => {
+  const grid = createGridProjection(
+    "equalArea",
+    "hex",
+    { lat: 45, lng: 0 },
+    TILE_DEGREES,
+  );
+  const neighbors = [[0, 1], [0, -1], [1, 0], [1, -1], [-1, 0], [-1, 1]];
+  for (const [i, j] of [[0, 0], [1, 0], [-3, 5]]) {
+    const adjacent = neighbors.map(([di, dj]) => `${i + di},${j + dj}`);
+    for (const north of [-1, 0, 1]) {
+      for (const east of [-1, 0, 1]) {
+        if (north === 0 && east === 0) continue;
+        const next = grid.neighborCell(i, j, north, east);
+        assert.ok(
+          adjacent.includes(`${next.i},${next.j}`),
+          `${north},${east} from ${i},${j}`,
+        );
+        // The step goes the way asked
+        const from = grid.cellCenter(i, j);
+        const to = grid.cellCenter(next.i, next.j);
+        if (north !== 0) assert.equal(Math.sign(to.lat - from.lat), north);
+        if (east !== 0) assert.equal(Math.sign(to.lng - from.lng), east);
+      }
+    }
+  }
+});
+
+Deno.test("hex: steps north zig-zag back to the same line", () => {
+  const grid = createGridProjection(
+    "equirectangular",
+    "hex",
+    { lat: 0, lng: 0 },
+    TILE_DEGREES,
+  );
+  for (const start of [0, 1, -1]) {
+    let cell = { i: start, j: 2 };
+    for (const north of [1, 1, -1, -1]) {
+      cell = grid.neighborCell(cell.i, cell.j, north, 0);
+    }
+    assert.deepEqual(cell, { i: start, j: 2 });
+    const oneNorth = grid.neighborCell(start, 2, 1, 0);
+    const twoNorth = grid.neighborCell(oneNorth.i, oneNorth.j, 1, 0);
+    const from = grid.cellCenter(start, 2);
+    const to = grid.cellCenter(twoNorth.i, twoNorth.j);
+    assert.ok(Math.abs(to.lng - from.lng) < 1e-12, `from row ${start}`);
+  }
+});
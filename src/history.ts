@@ -0,0 +1,83 @@
+// Bounded undo/redo history of reversible cell actions.
+
+import type { CellMemento } from "./gameEngine.ts";
+import type { InventoryState } from "./inventory.ts";
+import type { ActionStats } from "./stats.ts";
+
+export type CellActionKind = "pickUp" | "craft" | "place";
+
+// Command record: the cell, inventory and stats on both sides of one action
+export interface CellAction {
+  kind: CellActionKind;
+  i: number;
+  j: number;
+  before: CellMemento;
+  after: CellMemento;
+  inventoryBefore: InventoryState;
+  inventoryAfter: InventoryState;
+  statsBefore: ActionStats;
+  statsAfter: ActionStats;
+}
+
+export interface HistoryState {
+  past: CellAction[];
+  future: CellAction[];
+}
+
+export class ActionHistory {
+  private past: CellAction[] = [];
+  private future: CellAction[] = [];
+
+  constructor(readonly limit: number) {}
+
+  get canUndo(): boolean {
+    return this.past.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.future.length > 0;
+  }
+
+  // A new action starts a new branch, so anything undone is dropped
+  record(action: CellAction) {
+    this.past.push(action);
+    if (this.past.length > this.limit) {
+      this.past.shift();
+    }
+    this.future = [];
+  }
+
+  undo(): CellAction | null {
+    const action = this.past.pop();
+    if (!action) return null;
+    this.future.push(action);
+    return action;
+  }
+
+  redo(): CellAction | null {
+    const action = this.future.pop();
+    if (!action) return null;
+    this.past.push(action);
+    return action;
+  }
+
+  // Forget an action without undoing it, e.g. one a sync server refused
+  discard(action: CellAction) {
+    this.past = this.past.filter((recorded) => recorded !== action);
+    this.future = this.future.filter((recorded) => recorded !== action);
+  }
+
+  clear() {
+    this.past = [];
+    this.future = [];
+  }
+
+  toSerializable(): HistoryState {
+    return { past: [...this.past], future: [...this.future] };
+  }
+
+  load(state: HistoryState) {
+    this.past = state.past.slice(-this.limit);
+    this.future = state.future.slice(-this.limit);
+  }
+}
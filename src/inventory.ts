@@ -0,0 +1,84 @@
+// Player inventory: a fixed number of token slots with one selected slot.
+
+import type { Token } from "./crafting.ts";
+
+export interface InventoryState {
+  slots: (Token | null)[];
+  selectedIndex: number;
+}
+
+export class Inventory {
+  private slots: (Token | null)[];
+  private selectedIndex = 0;
+
+  constructor(readonly capacity: number) {
+    this.slots = new Array(capacity).fill(null);
+  }
+
+  // Token in the selected slot, or null when that slot is empty
+  get selected(): Token | null {
+    return this.slots[this.selectedIndex];
+  }
+
+  set selected(value: Token | null) {
+    this.slots[this.selectedIndex] = value;
+  }
+
+  get selectedSlot(): number {
+    return this.selectedIndex;
+  }
+
+  select(index: number): boolean {
+    if (!Number.isInteger(index) || index < 0 || index >= this.capacity) {
+      return false;
+    }
+    this.selectedIndex = index;
+    return true;
+  }
+
+  getSlots(): readonly (Token | null)[] {
+    return this.slots;
+  }
+
+  // Put a token in slot `preferred` if it is empty, else the first empty
+  // slot; false when every slot is full
+  add(token: Token, preferred: number): boolean {
+    const index = this.slots[preferred] === null
+      ? preferred
+      : this.slots.indexOf(null);
+    if (index === -1) return false;
+    this.slots[index] = { ...token };
+    return true;
+  }
+
+  // Take out a token like this one, looking in slot `preferred` first;
+  // false when no slot holds one
+  remove(token: Token, preferred: number): boolean {
+    const matches = (slot: Token | null) =>
+      slot?.value === token.value && slot.element === token.element;
+    const index = matches(this.slots[preferred])
+      ? preferred
+      : this.slots.findIndex(matches);
+    if (index === -1) return false;
+    this.slots[index] = null;
+    return true;
+  }
+
+  clear() {
+    this.slots.fill(null);
+    this.selectedIndex = 0;
+  }
+
+  toSerializable(): InventoryState {
+    return { slots: [...this.slots], selectedIndex: this.selectedIndex };
+  }
+
+  // Load saved slots, padding or trimming them to this inventory's capacity
+  load(state: InventoryState) {
+    this.clear();
+    state.slots.slice(0, this.capacity).forEach((value, index) => {
+      this.slots[index] = value;
+    });
+    this.select(state.selectedIndex);
+  }
+}
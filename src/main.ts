@@ -8,172 +8,216 @@ import "./style.css";
 // Fix missing marker images
 import "./_leafletWorkaround.ts";
 
-// Import luck function
-import luck from "./_luck.ts";
+// Import headless game engine
+import {
+  type ActionResult,
+  cellKey,
+  type EngineState,
+  GameEngine,
+  type GameEvent,
+  parseCellKey,
+} from "./gameEngine.ts";
+
+// Import typed game configuration and presets
+import {
+  CONFIG_QUERY_PARAMS,
+  configFromQuery,
+  DEFAULT_CONFIG,
+  type GameConfig,
+  GameConfigError,
+  isPresetName,
+  parseGameConfig,
+  presetNameOf,
+  PRESETS,
+  sameConfig,
+  toGameRules,
+} from "./gameConfig.ts";
+
+// Import versioned save file handling
+import {
+  decodeShareCode,
+  encodeShareCode,
+  parseSaveFile,
+  type SaveFile,
+  SaveFileError,
+  SHARE_CODE_FRAGMENT,
+  toSaveFile,
+} from "./saveFile.ts";
+
+// Import IndexedDB save storage
+import { SaveStore, type SentGift, toSaveMeta } from "./saveStore.ts";
+
+// Import signed token transfer codes
+import {
+  createTransferCode,
+  readTransferCode,
+  senderFingerprint,
+  TRANSFER_CODE_FRAGMENT,
+  TransferError,
+} from "./transfer.ts";
+
+// Import typed tokens for display
+import {
+  formatToken,
+  makeProduct,
+  type Recipe,
+  type Token,
+  tokenLabel,
+} from "./crafting.ts";
+
+// Import world seed generation
+import { randomSeed } from "./spawnRules.ts";
+
+// Import movement controllers and their registry
+import {
+  ButtonMovementController,
+  GamepadMovementController,
+  GeolocationMovementController,
+  type GeolocationStatus,
+  KeyboardMovementController,
+  type MoveButton,
+  MovementControllerRegistry,
+  PositionKalmanFilter,
+} from "./movement.ts";
+
+// Import route replay and recording
+import {
+  GeolocationRecorder,
+  parseTrack,
+  ReplayMovementController,
+  toGpx,
+  TrackFormatError,
+} from "./routeReplay.ts";
+
+// Import offline support: service worker for the app and map tiles
+import { registerServiceWorker } from "./tileCache.ts";
+
+// Import shared world syncing
+import type { PlayerRecord } from "./syncProtocol.ts";
+import {
+  SyncClient,
+  type SyncStatus,
+  WebSocketSyncBackend,
+  worldKey,
+} from "./sync.ts";
+
+// Import canvas renderer for the cell grid and its keyboard cursor
+import { CanvasGridLayer } from "./canvasGridLayer.ts";
+import { CellCursor } from "./cellCursor.ts";
+import { runGridBenchmark } from "../scripts/gridBenchmark.ts";
+import { Minimap } from "./minimap.ts";
 
-// === Flyweight Implementation ===
-
-// Intrinsic state
-interface Cell {
-  hasToken: boolean;
-  tokenValue: number | null;
-}
-
-// Extrinsic visuals stored in maps
-const cellRects: Map<string, leaflet.Rectangle> = new Map();
-const cellTokenMarkers: Map<string, leaflet.Marker> = new Map();
-
-// === Memento Implementation ===
-
-// Memento class for storing snapshot of cell state
-class CellMemento {
-  hasToken: boolean;
-  tokenValue: number | null;
-
-  constructor(cell: Cell) {
-    this.hasToken = cell.hasToken;
-    this.tokenValue = cell.tokenValue;
-  }
-}
-
-// Caretaker for tracking mementos of modified cells
-class ModifiedCells {
-  private mementos: Map<string, CellMemento> = new Map();
-
-  save(cellID: string, cell: Cell) {
-    this.mementos.set(cellID, new CellMemento(cell));
-  }
-
-  restore(cellID: string): Cell | null {
-    const memento = this.mementos.get(cellID);
-    if (memento) {
-      return {
-        hasToken: memento.hasToken,
-        tokenValue: memento.tokenValue,
-      };
-    } else {
-      return null;
-    }
-  }
-
-  // Clear all saved mementos
-  clear(): void {
-    this.mementos.clear();
-  }
+// === Game State ===
 
-  loadEntries(entries: [string, CellMemento][]) {
-    for (const [id, mem] of entries) {
-      this.mementos.set(id, mem);
-    }
+// Display and input parameters; the game rules themselves are in `config`
+const GAMEPLAY_ZOOM_LEVEL = 19;
+// Camera zoom range; below GAMEPLAY_ZOOM_LEVEL the grid shows token density
+const MIN_ZOOM_LEVEL = 16;
+const MAX_ZOOM_LEVEL = 19;
+const KEY_REPEAT_MS = 200;
+// Cells moved per button press, key press or gamepad step
+const CELL_STEP = 1;
+const GAMEPAD_SLOWEST_STEP_MS = 400;
+const GAMEPAD_FASTEST_STEP_MS = 120;
+const REPLAY_TICK_MS = 250;
+const TOAST_MS = 4000;
+// How often cells are checked for regrowing, decay and world events
+const WORLD_TICK_MS = 10000;
+// Minimap cells on each side of the player, and their size in pixels
+const MINIMAP_RADIUS_CELLS = 24;
+const MINIMAP_CELL_PIXELS = 4;
+// Quiet time after a change before the player and inventory are autosaved
+const AUTOSAVE_DELAY_MS = 1000;
+// Chunks of modified cells kept in memory; older ones wait in IndexedDB
+const MAX_LOADED_CHUNKS = 1024;
+
+// Map tiles; `?tiles=http://localhost:8081/{z}/{x}/{y}.png` points the game
+// at a local stub tile server (see scripts/stubTileServer.ts)
+const TILE_URL_TEMPLATE = new URLSearchParams(location.search).get("tiles") ??
+  "https://tile.openstreetmap.org/{z}/{x}/{y}.png";
+// Fixes coarser than this are ignored; smoothing assumes walking-ish drift
+const GPS_MAX_ACCURACY_METERS = 50;
+const GPS_PROCESS_NOISE_MPS = 3;
+// Shared worlds; `?sync=ws://localhost:8787` joins a server on load
+// (see scripts/syncServer.ts)
+const DEFAULT_SYNC_URL = "ws://localhost:8787";
+const SYNC_RETRY_MS = 5000;
+const PLAYER_ID_KEY = "worldOfBitsPlayerID";
+const PLAYER_NAME_KEY = "worldOfBitsPlayerName";
+// Display preferences, kept outside the save
+const HIGH_CONTRAST_KEY = "worldOfBitsHighContrast";
+const FOG_OF_WAR_KEY = "worldOfBitsFogOfWar";
+// Focused map: arrow keys move the cell cursor toward (north, east)
+const CURSOR_KEYS: Record<string, [number, number]> = {
+  ArrowUp: [1, 0],
+  ArrowDown: [-1, 0],
+  ArrowLeft: [0, -1],
+  ArrowRight: [0, 1],
+};
+
+// Rules given in the URL (e.g. `?preset=hard&victory=128`), removed from the
+// address afterwards so reloading does not apply them again
+function readQueryConfig(): GameConfig | null {
+  const params = new URLSearchParams(location.search);
+  let queryConfig: GameConfig | null = null;
+  try {
+    queryConfig = configFromQuery(params);
+  } catch (error) {
+    if (!(error instanceof GameConfigError)) throw error;
+    alert(`Ignoring game rules in the link: ${error.message}`);
   }
 
-  toSerializable() {
-    return Array.from(
-      this.mementos.entries(),
-      ([id, m]) => [id, { hasToken: m.hasToken, tokenValue: m.tokenValue }],
-    );
+  for (const key of CONFIG_QUERY_PARAMS) {
+    params.delete(key);
   }
+  const search = params.size > 0 ? `?${params}` : "";
+  history.replaceState(null, "", location.pathname + search + location.hash);
+  return queryConfig;
 }
 
-const modifiedCells = new ModifiedCells();
-
-// === Facade Implementation ===
-
-// Facade
-interface MovementController {
-  start(): void;
-  stop(): void;
-  onMove(callback: (dLat: number, dLng: number) => void): void;
-}
-
-// Geolocation-based movement controller
-class GeolocationMovementController implements MovementController {
-  private callback: ((dLat: number, dLng: number) => void) | null = null;
-  private watchID: number | null = null;
-
-  start() {
-    if (navigator.geolocation) {
-      this.watchID = navigator.geolocation.watchPosition(
-        (position) => {
-          if (this.callback) {
-            this.callback(position.coords.latitude, position.coords.longitude);
-          }
-        },
-        (error) => console.error("Geolocation error:", error),
-        { enableHighAccuracy: true, maximumAge: 1000, timeout: 5000 },
-      );
-    }
-  }
-
-  stop() {
-    if (this.watchID !== null) {
-      navigator.geolocation.clearWatch(this.watchID);
-      this.watchID = null;
-    }
-  }
-
-  onMove(callback: (dLat: number, dLng: number) => void) {
-    this.callback = callback;
+// Saves live in IndexedDB; a save left in localStorage is moved over once
+const saveStore = await SaveStore.open();
+await saveStore.importLocalStorage(localStorage);
+
+// A game keeps the rules in its save; rules from the URL start a new game.
+// Bad or unsupported saves are quarantined and the game starts fresh.
+const queryConfig = readQueryConfig();
+let startingSave = await saveStore.load();
+let config = startingSave?.config ?? DEFAULT_CONFIG;
+if (queryConfig && !sameConfig(queryConfig, config)) {
+  if (
+    !startingSave ||
+    confirm(
+      "This link sets different game rules. Start a new game with them? Your current game is replaced.",
+    )
+  ) {
+    config = queryConfig;
+    startingSave = null;
   }
 }
 
-// Button-based movement controller
-class ButtonMovementController implements MovementController {
-  private callback: ((dLat: number, dLng: number) => void) | null = null;
-  private step: number = TILE_DEGREES;
-
-  constructor(
-    private upButton: HTMLButtonElement,
-    private downButton: HTMLButtonElement,
-    private leftButton: HTMLButtonElement,
-    private rightButton: HTMLButtonElement,
-  ) {}
-
-  start() {
-    this.upButton.addEventListener("click", this.moveUp);
-    this.downButton.addEventListener("click", this.moveDown);
-    this.leftButton.addEventListener("click", this.moveLeft);
-    this.rightButton.addEventListener("click", this.moveRight);
-  }
-
-  stop() {
-    this.upButton.removeEventListener("click", this.moveUp);
-    this.downButton.removeEventListener("click", this.moveDown);
-    this.leftButton.removeEventListener("click", this.moveLeft);
-    this.rightButton.removeEventListener("click", this.moveRight);
-  }
-
-  onMove(callback: (dLat: number, dLng: number) => void) {
-    this.callback = callback;
-  }
-
-  private move = (dLat: number, dLng: number) => {
-    if (this.callback) {
-      this.callback(dLat, dLng);
-    }
-  };
-
-  private moveUp = () => this.move(this.step, 0);
-  private moveDown = () => this.move(-this.step, 0);
-  private moveLeft = () => this.move(0, -this.step);
-  private moveRight = () => this.move(0, this.step);
-}
+// Game rules and state live in the engine; this file only renders them
+const engine = new GameEngine(toGameRules(config));
 
-// === Game State ===
+// Connection to a shared world, while joined
+let syncClient: SyncClient | null = null;
 
-// Location of Grid Origin
-const ORIGIN_COORDINATES = leaflet.latLng(0, 0);
+// High contrast follows the system setting until the player picks one
+let highContrast = localStorage.getItem(HIGH_CONTRAST_KEY) !== null
+  ? localStorage.getItem(HIGH_CONTRAST_KEY) === "true"
+  : matchMedia("(prefers-contrast: more)").matches;
 
-// Tunable gameplay parameters
-const GAMEPLAY_ZOOM_LEVEL = 19;
-const TILE_DEGREES = 0.0001;
-const TOKEN_SPAWN_PROBABILITY = 0.15;
-const DEFAULT_TOKEN_VALUE = 2;
-const PLAYER_RANGE_METERS = 35;
-const VICTORY_THRESHOLD = 32;
+// Fog of war is on unless the player turned it off
+let fogOfWar = localStorage.getItem(FOG_OF_WAR_KEY) !== "false";
 
-// Victory state
-let victoryState = false;
+// Each chunk of modified cells is written to the store as soon as one of its
+// cells changes, and read back when needed after leaving memory
+engine.modifiedCells.setStorage({
+  putChunk: (key, cells) =>
+    reloadPending ? Promise.resolve() : saveStore.putChunk(key, cells),
+  getChunk: (key) => saveStore.getChunk(key),
+}, MAX_LOADED_CHUNKS);
+engine.modifiedCells.onWriteError(reportSaveError);
 
 // === DOM Initialization ===
 
@@ -184,12 +228,69 @@ document.body.append(controlPanelDiv);
 
 const mapDiv = document.createElement("div");
 mapDiv.id = "map";
+mapDiv.tabIndex = 0;
+mapDiv.setAttribute("role", "application");
+mapDiv.setAttribute(
+  "aria-label",
+  "Map. Arrow keys choose a cell in range, Enter interacts with it.",
+);
 document.body.append(mapDiv);
 
 const statusPanelDiv = document.createElement("div");
 statusPanelDiv.id = "statusPanel";
 document.body.append(statusPanelDiv);
 
+// Offline badge (shown while the browser reports no network)
+const offlineBadge = document.createElement("span");
+offlineBadge.id = "offlineBadge";
+offlineBadge.textContent = "Offline";
+offlineBadge.title = "No network: using cached map tiles";
+controlPanelDiv.appendChild(offlineBadge);
+
+// Web app manifest for installing the game to the home screen
+const manifestLink = document.createElement("link");
+manifestLink.rel = "manifest";
+manifestLink.href = "manifest.webmanifest";
+document.head.append(manifestLink);
+
+// Toasts: short non-blocking notices, e.g. unlocked achievements
+const toastsDiv = document.createElement("div");
+toastsDiv.id = "toasts";
+toastsDiv.setAttribute("aria-live", "polite");
+document.body.append(toastsDiv);
+
+// Screen reader announcements of actions, inventory and the cell cursor
+const announcerDiv = document.createElement("div");
+announcerDiv.id = "announcer";
+announcerDiv.className = "visually-hidden";
+announcerDiv.setAttribute("role", "status");
+announcerDiv.setAttribute("aria-live", "polite");
+document.body.append(announcerDiv);
+
+// Game summary dialog (stats and achievements, shown on victory)
+const summaryDialog = document.createElement("dialog");
+summaryDialog.id = "summaryDialog";
+
+const summaryTitle = document.createElement("h2");
+const summaryStatsList = document.createElement("dl");
+summaryStatsList.className = "summary-stats";
+const summaryAchievementsList = document.createElement("ul");
+summaryAchievementsList.className = "summary-achievements";
+
+const summaryCloseButton = document.createElement("button");
+summaryCloseButton.textContent = "Keep Playing";
+const summaryNewGameButton = document.createElement("button");
+summaryNewGameButton.textContent = "New Game";
+
+summaryDialog.append(
+  summaryTitle,
+  summaryStatsList,
+  summaryAchievementsList,
+  summaryCloseButton,
+  summaryNewGameButton,
+);
+document.body.append(summaryDialog);
+
 // Inventory UI
 const inventoryDiv = document.createElement("div");
 inventoryDiv.id = "inventory";
@@ -198,15 +299,28 @@ const inventoryTitle = document.createElement("div");
 inventoryTitle.className = "inventory-title";
 inventoryTitle.textContent = "Inventory";
 
-const inventorySlot = document.createElement("div");
-inventorySlot.className = "inventory-slot";
+const inventorySlotsDiv = document.createElement("div");
+inventorySlotsDiv.className = "inventory-slots";
+
+// One clickable slot per inventory capacity; clicking selects that slot
+const inventoryTokens: HTMLDivElement[] = [];
+for (let index = 0; index < config.inventoryCapacity; index++) {
+  const inventorySlot = document.createElement("div");
+  inventorySlot.className = "inventory-slot";
+  inventorySlot.title = `Slot ${index + 1}`;
+  inventorySlot.tabIndex = 0;
+  inventorySlot.setAttribute("role", "button");
+
+  const inventoryToken = document.createElement("div");
+  inventoryToken.className = "token-icon inventory-token";
 
-const inventoryToken = document.createElement("div");
-inventoryToken.className = "token-icon inventory-token";
+  inventorySlot.appendChild(inventoryToken);
+  inventorySlotsDiv.appendChild(inventorySlot);
+  inventoryTokens.push(inventoryToken);
+}
 
-inventorySlot.appendChild(inventoryToken);
 inventoryDiv.appendChild(inventoryTitle);
-inventoryDiv.appendChild(inventorySlot);
+inventoryDiv.appendChild(inventorySlotsDiv);
 statusPanelDiv.appendChild(inventoryDiv);
 
 // Gamepad UI
@@ -220,32 +334,84 @@ function makeButton(label: string) {
   return b;
 }
 
-const upButton = makeButton("Go North");
-const leftButton = makeButton("Go West");
-const rightButton = makeButton("Go East");
-const downButton = makeButton("Go South");
+function makeMoveButton(
+  label: string,
+  north: number,
+  east: number,
+): MoveButton {
+  return { button: makeButton(label), north, east };
+}
+
+// Rows of movement buttons, with null for the gap in the middle; hexagons
+// have no north or south neighbor
+const moveButtonRows: (MoveButton | null)[][] = config.gridType === "hex"
+  ? [
+    [
+      makeMoveButton("Go Northwest", 1, -1),
+      makeMoveButton("Go Northeast", 1, 1),
+    ],
+    [makeMoveButton("Go West", 0, -1), null, makeMoveButton("Go East", 0, 1)],
+    [
+      makeMoveButton("Go Southwest", -1, -1),
+      makeMoveButton("Go Southeast", -1, 1),
+    ],
+  ]
+  : [
+    [makeMoveButton("Go North", 1, 0)],
+    [makeMoveButton("Go West", 0, -1), null, makeMoveButton("Go East", 0, 1)],
+    [makeMoveButton("Go South", -1, 0)],
+  ];
+
+for (const buttons of moveButtonRows) {
+  const row = document.createElement("div");
+  row.className = "gamepad-row";
+  for (const moveButton of buttons) {
+    if (moveButton) {
+      row.appendChild(moveButton.button);
+    } else {
+      const spacer = document.createElement("div");
+      spacer.className = "gamepad-spacer";
+      row.appendChild(spacer);
+    }
+  }
+  gamepad.appendChild(row);
+}
+
+statusPanelDiv.appendChild(gamepad);
 
-const row1 = document.createElement("div");
-row1.className = "gamepad-row";
-row1.appendChild(upButton);
+// Minimap of the area around the player
+const minimap = new Minimap(engine, MINIMAP_RADIUS_CELLS, MINIMAP_CELL_PIXELS);
+statusPanelDiv.appendChild(minimap.canvas);
 
-const row2 = document.createElement("div");
-row2.className = "gamepad-row";
-row2.appendChild(leftButton);
-const spacer = document.createElement("div");
-spacer.className = "gamepad-spacer";
-row2.appendChild(spacer);
-row2.appendChild(rightButton);
+// Route replay UI (shown while the replay controller is active)
+const replayControlsDiv = document.createElement("div");
+replayControlsDiv.id = "replayControls";
 
-const row3 = document.createElement("div");
-row3.className = "gamepad-row";
-row3.appendChild(downButton);
+const replayPlayButton = makeButton("Play");
 
-gamepad.appendChild(row1);
-gamepad.appendChild(row2);
-gamepad.appendChild(row3);
+const replaySpeedSelect = document.createElement("select");
+replaySpeedSelect.className = "replay-speed";
+for (const speed of [1, 2, 5, 10, 30]) {
+  const option = document.createElement("option");
+  option.value = String(speed);
+  option.textContent = `${speed}x`;
+  replaySpeedSelect.appendChild(option);
+}
 
-statusPanelDiv.appendChild(gamepad);
+const replaySeekInput = document.createElement("input");
+replaySeekInput.type = "range";
+replaySeekInput.className = "replay-seek";
+replaySeekInput.min = "0";
+replaySeekInput.step = "1000";
+
+const replayTimeSpan = document.createElement("span");
+replayTimeSpan.className = "replay-time";
+
+replayControlsDiv.appendChild(replayPlayButton);
+replayControlsDiv.appendChild(replaySpeedSelect);
+replayControlsDiv.appendChild(replaySeekInput);
+replayControlsDiv.appendChild(replayTimeSpan);
+statusPanelDiv.appendChild(replayControlsDiv);
 
 // New Game button
 const newGameButton = document.createElement("button");
@@ -253,506 +419,1523 @@ newGameButton.id = "newGameButton";
 newGameButton.textContent = "New Game";
 controlPanelDiv.appendChild(newGameButton);
 
-// Movement controller toggle UI
-const geoToggleButton = document.createElement("button");
-geoToggleButton.id = "geoToggle";
-geoToggleButton.className = "control-button";
-geoToggleButton.textContent = "Use Geolocation";
-
-const buttonToggleButton = document.createElement("button");
-buttonToggleButton.id = "buttonToggle";
-buttonToggleButton.className = "control-button";
-buttonToggleButton.textContent = "Use Buttons";
+// Stats button (opens the game summary)
+const statsButton = document.createElement("button");
+statsButton.id = "statsButton";
+statsButton.className = "control-button";
+statsButton.textContent = "Stats";
+controlPanelDiv.appendChild(statsButton);
+
+// Load Rules button (starts a new game with rules from a JSON file)
+const loadRulesButton = document.createElement("button");
+loadRulesButton.id = "loadRulesButton";
+loadRulesButton.className = "control-button";
+loadRulesButton.textContent = "Load Rules";
+
+const loadRulesInput = document.createElement("input");
+loadRulesInput.type = "file";
+loadRulesInput.accept = ".json";
+loadRulesInput.style.display = "none";
+
+controlPanelDiv.appendChild(loadRulesButton);
+controlPanelDiv.appendChild(loadRulesInput);
+
+// World seed display
+const seedSpan = document.createElement("span");
+seedSpan.id = "seedDisplay";
+controlPanelDiv.appendChild(seedSpan);
+
+// World events running now, e.g. a double-spawn hour
+const worldEventsSpan = document.createElement("span");
+worldEventsSpan.id = "worldEvents";
+controlPanelDiv.appendChild(worldEventsSpan);
+
+// Undo/redo UI
+const undoButton = document.createElement("button");
+undoButton.id = "undoButton";
+undoButton.className = "control-button";
+undoButton.textContent = "Undo";
+undoButton.title = "Undo (Ctrl+Z)";
+
+const redoButton = document.createElement("button");
+redoButton.id = "redoButton";
+redoButton.className = "control-button";
+redoButton.textContent = "Redo";
+redoButton.title = "Redo (Ctrl+Y or Ctrl+Shift+Z)";
+
+controlPanelDiv.appendChild(undoButton);
+controlPanelDiv.appendChild(redoButton);
+
+// Save export/import UI
+const exportButton = document.createElement("button");
+exportButton.id = "exportButton";
+exportButton.className = "control-button";
+exportButton.textContent = "Export Save";
+
+const importFileButton = document.createElement("button");
+importFileButton.id = "importFileButton";
+importFileButton.className = "control-button";
+importFileButton.textContent = "Import File";
+
+const importCodeButton = document.createElement("button");
+importCodeButton.id = "importCodeButton";
+importCodeButton.className = "control-button";
+importCodeButton.textContent = "Import Code";
+
+// Hidden file picker driven by the Import File button
+const importFileInput = document.createElement("input");
+importFileInput.type = "file";
+importFileInput.accept = "application/json,.json";
+importFileInput.style.display = "none";
+
+controlPanelDiv.appendChild(exportButton);
+controlPanelDiv.appendChild(importFileButton);
+controlPanelDiv.appendChild(importCodeButton);
+controlPanelDiv.appendChild(importFileInput);
+
+// Token gift UI
+const sendTokenButton = document.createElement("button");
+sendTokenButton.id = "sendTokenButton";
+sendTokenButton.className = "control-button";
+sendTokenButton.textContent = "Send Token";
+
+const redeemGiftButton = document.createElement("button");
+redeemGiftButton.id = "redeemGiftButton";
+redeemGiftButton.className = "control-button";
+redeemGiftButton.textContent = "Redeem Gift";
+
+const sentGiftsButton = document.createElement("button");
+sentGiftsButton.id = "sentGiftsButton";
+sentGiftsButton.className = "control-button";
+sentGiftsButton.textContent = "Sent Gifts";
+
+controlPanelDiv.appendChild(sendTokenButton);
+controlPanelDiv.appendChild(redeemGiftButton);
+controlPanelDiv.appendChild(sentGiftsButton);
+
+// Sent gifts dialog (every link this device sent, to share again)
+const sentGiftsDialog = document.createElement("dialog");
+sentGiftsDialog.id = "sentGiftsDialog";
+
+const sentGiftsTitle = document.createElement("h2");
+sentGiftsTitle.textContent = "Sent Gifts";
+const sentGiftsHint = document.createElement("p");
+sentGiftsHint.textContent =
+  "Give a link to the other player. Each can be redeemed once.";
+const sentGiftsList = document.createElement("ul");
+sentGiftsList.className = "sent-gifts";
+const sentGiftsCloseButton = document.createElement("button");
+sentGiftsCloseButton.textContent = "Close";
+
+sentGiftsDialog.append(
+  sentGiftsTitle,
+  sentGiftsHint,
+  sentGiftsList,
+  sentGiftsCloseButton,
+);
+document.body.append(sentGiftsDialog);
 
-controlPanelDiv.appendChild(geoToggleButton);
-controlPanelDiv.appendChild(buttonToggleButton);
+// Movement controller toggle UI
+// (one toggle per available controller, generated from the registry)
+const controllerTogglesSpan = document.createElement("span");
+controllerTogglesSpan.id = "controllerToggles";
+controlPanelDiv.appendChild(controllerTogglesSpan);
+const controllerToggleButtons: Map<string, HTMLButtonElement> = new Map();
+
+// Geolocation status indicator (shown while geolocation is active)
+const geoStatusSpan = document.createElement("span");
+geoStatusSpan.id = "geoStatus";
+controlPanelDiv.appendChild(geoStatusSpan);
+
+// Route file and recording UI
+const loadRouteButton = document.createElement("button");
+loadRouteButton.id = "loadRouteButton";
+loadRouteButton.className = "control-button";
+loadRouteButton.textContent = "Load Route";
+
+const loadRouteInput = document.createElement("input");
+loadRouteInput.type = "file";
+loadRouteInput.accept = ".gpx,.geojson,.json";
+loadRouteInput.style.display = "none";
+
+const recordRouteButton = document.createElement("button");
+recordRouteButton.id = "recordRouteButton";
+recordRouteButton.className = "control-button";
+recordRouteButton.textContent = "Record Route";
+
+controlPanelDiv.appendChild(loadRouteButton);
+controlPanelDiv.appendChild(loadRouteInput);
+controlPanelDiv.appendChild(recordRouteButton);
+
+// Camera mode toggle UI
+const cameraButton = document.createElement("button");
+cameraButton.id = "cameraButton";
+cameraButton.className = "control-button";
+controlPanelDiv.appendChild(cameraButton);
+
+// High-contrast tokens toggle
+const highContrastButton = document.createElement("button");
+highContrastButton.id = "highContrastButton";
+highContrastButton.className = "control-button";
+highContrastButton.textContent = "High Contrast";
+controlPanelDiv.appendChild(highContrastButton);
+
+// Fog of war toggle
+const fogOfWarButton = document.createElement("button");
+fogOfWarButton.id = "fogOfWarButton";
+fogOfWarButton.className = "control-button";
+fogOfWarButton.textContent = "Fog of War";
+controlPanelDiv.appendChild(fogOfWarButton);
+
+// Shared world UI
+const syncButton = document.createElement("button");
+syncButton.id = "syncButton";
+syncButton.className = "control-button";
+syncButton.textContent = "Join Server";
+controlPanelDiv.appendChild(syncButton);
+
+const syncStatusSpan = document.createElement("span");
+syncStatusSpan.id = "syncStatus";
+controlPanelDiv.appendChild(syncStatusSpan);
 
 // === Map Initialization ===
 
 // Create the map
 const map = leaflet.map(mapDiv, {
-  center: ORIGIN_COORDINATES,
+  center: config.origin,
   zoom: GAMEPLAY_ZOOM_LEVEL,
-  minZoom: GAMEPLAY_ZOOM_LEVEL,
-  maxZoom: GAMEPLAY_ZOOM_LEVEL,
-  zoomControl: false,
-  scrollWheelZoom: false,
+  minZoom: MIN_ZOOM_LEVEL,
+  maxZoom: MAX_ZOOM_LEVEL,
+  // Zoom around the player until the camera switches to explore mode
+  scrollWheelZoom: "center",
+  touchZoom: "center",
+  // Keys on the focused map drive the cell cursor instead of panning
+  keyboard: false,
 });
 
 // Populate the map with a background tile layer
 leaflet
-  .tileLayer("https://tile.openstreetmap.org/{z}/{x}/{y}.png", {
-    maxZoom: GAMEPLAY_ZOOM_LEVEL,
+  .tileLayer(TILE_URL_TEMPLATE, {
+    maxZoom: MAX_ZOOM_LEVEL,
     attribution:
       '&copy; <a href="http://www.openstreetmap.org/copyright">OpenStreetMap</a>',
   })
   .addTo(map);
 
-// Player position and movable marker
-let playerPosition = leaflet.latLng(
-  ORIGIN_COORDINATES.lat,
-  ORIGIN_COORDINATES.lng,
-);
-const playerMarker = leaflet.marker(playerPosition);
+// Service worker keeps the app and the tiles the player has seen offline
+registerServiceWorker("sw.js");
+updateOfflineUI();
+globalThis.addEventListener("online", updateOfflineUI);
+globalThis.addEventListener("offline", updateOfflineUI);
+
+// Player marker (follows the engine's player position)
+const playerMarker = leaflet.marker(engine.playerPosition);
 playerMarker.bindTooltip("That's you!");
 playerMarker.addTo(map);
 
-// Player range (follows playerPosition)
-const playerRangeCircle = leaflet.circle(playerPosition, {
-  radius: PLAYER_RANGE_METERS,
+// Player range (follows the engine's player position)
+const playerRangeCircle = leaflet.circle(engine.playerPosition, {
+  radius: config.playerRangeMeters,
   color: "green",
   fillColor: "green",
   fillOpacity: 0.2,
 });
 playerRangeCircle.addTo(map);
 
+// Other players in a shared world, by player ID
+const remotePlayerMarkers: Map<string, leaflet.CircleMarker> = new Map();
+
 // === Utility functions ===
 
 function updateInventoryUI() {
-  if (inventory === null) {
-    // hide token visual when inventory is empty
-    inventoryToken.textContent = "";
-    inventoryToken.classList.add("inventory-empty-token");
-  } else {
-    inventoryToken.textContent = String(inventory);
-    inventoryToken.classList.remove("inventory-empty-token");
+  const slots = engine.inventory.getSlots();
+  inventoryTokens.forEach((inventoryToken, index) => {
+    const token = slots[index];
+    inventoryToken.parentElement!.classList.toggle(
+      "selected",
+      index === engine.inventory.selectedSlot,
+    );
+    inventoryToken.parentElement!.setAttribute(
+      "aria-pressed",
+      String(index === engine.inventory.selectedSlot),
+    );
+    inventoryToken.parentElement!.setAttribute(
+      "aria-label",
+      `Slot ${index + 1}: ${token ? formatToken(token) : "empty"}`,
+    );
+    inventoryToken.className = "token-icon inventory-token";
+    if (token === null) {
+      // hide token visual when the slot is empty
+      inventoryToken.textContent = "";
+      inventoryToken.title = "";
+      inventoryToken.classList.add("inventory-empty-token");
+    } else {
+      inventoryToken.textContent = highContrast
+        ? tokenLabel(token)
+        : String(token.value);
+      inventoryToken.title = formatToken(token);
+      inventoryToken.classList.add(`token-${token.element}`);
+    }
+  });
+  sendTokenButton.disabled = engine.inventory.selected === null;
+}
+
+function updateSeedUI() {
+  seedSpan.textContent = `World seed: ${engine.seed || "(original)"} · Rules: ${
+    presetNameOf(config) ?? "custom"
+  }`;
+}
+
+// Messages in the same task are read out together
+let pendingAnnouncements: string[] = [];
+
+function announce(message: string) {
+  if (pendingAnnouncements.length === 0) {
+    setTimeout(() => {
+      announcerDiv.textContent = pendingAnnouncements.join(" ");
+      pendingAnnouncements = [];
+    });
   }
+  pendingAnnouncements.push(message);
 }
 
-function setActiveController(name: "geo" | "buttons") {
-  if (activeController === name) return;
+function describeHeldToken(): string {
+  const slot = engine.inventory.selectedSlot + 1;
+  const held = engine.inventory.selected;
+  return held
+    ? `Holding ${formatToken(held)} in slot ${slot}.`
+    : `Slot ${slot} is empty.`;
+}
 
-  // Stop currently active controller
-  if (activeController === "geo") {
-    geoMovement.stop();
-  } else if (activeController === "buttons") {
-    buttonMovement.stop();
+// Names of the events shown, to notice ones that just started
+let shownEvents = new Set<string>();
+
+function updateWorldEventsUI() {
+  const occurrences = engine.activeEvents;
+  worldEventsSpan.textContent = occurrences.map(({ event, end }) =>
+    `${event.name} until ${
+      new Date(end).toLocaleTimeString([], {
+        hour: "2-digit",
+        minute: "2-digit",
+      })
+    }`
+  ).join(" · ");
+
+  const names = new Set(occurrences.map(({ event }) => event.name));
+  for (const name of names) {
+    if (!shownEvents.has(name)) showToast(`${name} has started!`);
   }
+  shownEvents = names;
+}
 
-  // Start the requested controller and update UI
-  if (name === "geo") {
-    geoMovement.start();
-    geoToggleButton.classList.add("active");
-    buttonToggleButton.classList.remove("active");
-    // Hide the on-screen gamepad when geolocation is active
-    gamepad.style.display = "none";
-  } else {
-    buttonMovement.start();
-    buttonToggleButton.classList.add("active");
-    geoToggleButton.classList.remove("active");
-    // Show the on-screen gamepad when button controls are active
-    gamepad.style.display = "flex";
+function showToast(message: string) {
+  const toast = document.createElement("div");
+  toast.className = "toast";
+  toast.textContent = message;
+  toastsDiv.appendChild(toast);
+  setTimeout(() => toast.remove(), TOAST_MS);
+}
+
+function showSummary(title: string) {
+  const stats = engine.stats;
+  const rows: [string, string][] = [
+    ["Tokens picked up", String(stats.tokensPickedUp)],
+    ["Tokens placed", String(stats.tokensPlaced)],
+    ["Crafts done", String(stats.craftsDone)],
+    ["Highest crafted value", String(stats.highestCraftedValue)],
+    ["Distance walked", `${(stats.distanceMeters / 1000).toFixed(2)} km`],
+    ["Cells visited", String(stats.cellsVisited)],
+  ];
+  summaryTitle.textContent = title;
+  summaryStatsList.replaceChildren();
+  for (const [label, value] of rows) {
+    const term = document.createElement("dt");
+    term.textContent = label;
+    const detail = document.createElement("dd");
+    detail.textContent = value;
+    summaryStatsList.append(term, detail);
   }
 
-  activeController = name;
+  // Every achievement, with the unlocked ones marked
+  const unlocked = new Set(engine.unlockedAchievements.map(({ id }) => id));
+  summaryAchievementsList.replaceChildren();
+  for (const achievement of engine.rules.achievements) {
+    const item = document.createElement("li");
+    item.classList.toggle("unlocked", unlocked.has(achievement.id));
+    item.textContent = `${achievement.name}${
+      achievement.goal ? " (goal)" : ""
+    }: ${achievement.description}`;
+    summaryAchievementsList.appendChild(item);
+  }
+
+  if (!summaryDialog.open) summaryDialog.showModal();
 }
 
-function movePlayer(lat: number, lng: number) {
-  playerPosition = leaflet.latLng(lat, lng);
-  playerMarker.setLatLng(playerPosition);
-  playerRangeCircle.setLatLng(playerPosition);
-  // Optionally pan the map to keep player in view
-  map.panTo(playerPosition);
+function updateOfflineUI() {
+  offlineBadge.style.display = navigator.onLine ? "none" : "inline";
 }
 
-function getCellCenter(i: number, j: number): leaflet.LatLng {
-  return leaflet.latLng(
-    ORIGIN_COORDINATES.lat + (i + 0.5) * TILE_DEGREES,
-    ORIGIN_COORDINATES.lng + (j + 0.5) * TILE_DEGREES,
-  );
+function updateHistoryUI() {
+  // Undoing would rewrite cells other players may already have built on
+  const shared = syncClient !== null;
+  undoButton.disabled = shared || !engine.history.canUndo;
+  redoButton.disabled = shared || !engine.history.canRedo;
 }
 
-function getDistanceFromPlayer(i: number, j: number): number {
-  // distance from the current player position (may move with gamepad)
-  return playerPosition.distanceTo(getCellCenter(i, j));
+function buildControllerToggles() {
+  controllerTogglesSpan.replaceChildren();
+  controllerToggleButtons.clear();
+
+  for (const { name, label } of movementControllers.available()) {
+    const toggle = document.createElement("button");
+    toggle.id = `${name}Toggle`;
+    toggle.className = "control-button";
+    toggle.textContent = `Use ${label}`;
+    toggle.addEventListener("click", () => setActiveController(name));
+    controllerTogglesSpan.appendChild(toggle);
+    controllerToggleButtons.set(name, toggle);
+  }
+  updateControllerUI();
 }
 
-function latLngToCellID(lat: number, lng: number): string {
-  const i = Math.floor(lat / TILE_DEGREES);
-  const j = Math.floor(lng / TILE_DEGREES);
-  return `${i},${j}`;
+function updateControllerUI() {
+  const active = movementControllers.active;
+  for (const [name, toggle] of controllerToggleButtons) {
+    toggle.classList.toggle("active", name === active);
+  }
+  // Show the on-screen gamepad only when button controls are active
+  gamepad.style.display = active === "buttons" ? "flex" : "none";
+  replayControlsDiv.style.display = active === "replay" ? "flex" : "none";
+  geoStatusSpan.style.display = active === "geo" ? "inline" : "none";
 }
 
-function createTokenMarker(
-  value: number,
-  center: leaflet.LatLng,
-  map: leaflet.Map,
-): leaflet.Marker {
-  const tokenIcon = leaflet.divIcon({
-    className: "token-icon",
-    html: `${value}`,
-    iconSize: [28, 28],
-    iconAnchor: [14, 14],
-  });
+function formatDuration(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, "0")}`;
+}
 
-  const tokenMarker = leaflet.marker(center, {
-    icon: tokenIcon,
-    interactive: false,
-  });
+function updateReplayUI() {
+  replayPlayButton.textContent = replayMovement.playing ? "Pause" : "Play";
+  replaySeekInput.max = String(replayMovement.duration);
+  replaySeekInput.value = String(replayMovement.position);
+  replayTimeSpan.textContent = `${formatDuration(replayMovement.position)} / ${
+    formatDuration(replayMovement.duration)
+  }`;
+}
+
+const GEO_STATUS_LABELS: Record<GeolocationStatus, string> = {
+  acquiring: "GPS: acquiring…",
+  active: "GPS: active",
+  denied: "GPS: permission denied",
+  unavailable: "GPS: unavailable",
+};
+
+function updateGeoStatusUI(status: GeolocationStatus) {
+  geoStatusSpan.textContent = GEO_STATUS_LABELS[status];
+  geoStatusSpan.className = `geo-status geo-status-${status}`;
+}
+
+// Without a location feed the player is stuck, so offer button controls
+function handleGeoStatus(status: GeolocationStatus) {
+  updateGeoStatusUI(status);
+  if (status !== "denied" && status !== "unavailable") return;
+  if (movementControllers.active !== "geo") return;
+
+  const reason = status === "denied"
+    ? "Location permission was denied."
+    : "Your location is unavailable.";
+  if (confirm(`${reason} Switch to button controls?`)) {
+    setActiveController("buttons");
+  }
+}
+
+function setActiveController(name: string) {
+  if (movementControllers.setActive(name)) {
+    updateControllerUI();
+  }
+}
+
+function updateCameraUI() {
+  const exploring = cameraMode === "explore";
+  cameraButton.textContent = exploring ? "Recenter on Me" : "Explore Map";
+  cameraButton.classList.toggle("active", exploring);
 
-  tokenMarker.addTo(map);
-  return tokenMarker;
+  // Following zooms around the player; exploring zooms around the cursor
+  map.options.scrollWheelZoom = exploring ? true : "center";
+  map.options.touchZoom = exploring ? true : "center";
 }
 
-function removeTokenMarker(cellID: string) {
-  if (cellTokenMarkers.has(cellID)) {
-    const marker = cellTokenMarkers.get(cellID);
-    map.removeLayer(marker!);
-    cellTokenMarkers.delete(cellID);
+function setCameraMode(mode: "follow" | "explore") {
+  if (cameraMode === mode) return;
+  cameraMode = mode;
+  updateCameraUI();
+
+  // Returning to follow mode brings the camera back to the player
+  if (mode === "follow") {
+    map.setView(engine.playerPosition, GAMEPLAY_ZOOM_LEVEL);
+  }
+}
+
+function movePlayer(lat: number, lng: number) {
+  applyEvents(engine.movePlayer(lat, lng));
+  scheduleMinimapDraw();
+  playerMarker.setLatLng(engine.playerPosition);
+  playerRangeCircle.setLatLng(engine.playerPosition);
+  // The cursor stays within range of the player
+  if (document.activeElement === mapDiv) showCursor();
+  syncClient?.publishPosition(engine.playerPosition);
+
+  if (cameraMode === "follow") {
+    // Keep player in view; the grid redraws once the pan ends
+    map.panTo(engine.playerPosition);
+  } else {
+    // The camera stays put, but range dimming follows the player
+    gridLayer.redraw();
   }
 }
 
+function getCellCenter(i: number, j: number): leaflet.LatLng {
+  const center = engine.getCellCenter(i, j);
+  return leaflet.latLng(center.lat, center.lng);
+}
+
+interface PopupAction {
+  label: string;
+  onClick: () => void;
+}
+
 function createPopup(
   latLng: leaflet.LatLng,
   message: string,
-  buttonText?: string,
-  onClick?: () => void,
+  actions: PopupAction[] = [],
 ) {
   const popupDiv = document.createElement("div");
+  popupDiv.setAttribute("role", "dialog");
+  popupDiv.setAttribute("aria-label", message);
+  popupDiv.tabIndex = -1;
   const infoDiv = document.createElement("div");
   infoDiv.textContent = message;
   popupDiv.appendChild(infoDiv);
 
-  if (buttonText && onClick) {
+  const buttons = actions.map((action) => {
     const button = document.createElement("button");
-    button.textContent = buttonText;
-    button.addEventListener("click", onClick);
+    button.textContent = action.label;
+    button.addEventListener("click", action.onClick);
     popupDiv.appendChild(button);
-  }
+    return button;
+  });
+  popupDiv.addEventListener("keydown", (event) => {
+    if (event.key === "Escape") map.closePopup();
+  });
 
-  leaflet
+  const popup = leaflet
     .popup()
     .setLatLng(latLng)
     .setContent(popupDiv)
     .openOn(map);
-}
 
-// === Cell modifying actions ===
-
-function pickUpToken(cellCenter: leaflet.LatLng, cell: Cell, cellID: string) {
-  createPopup(
-    cellCenter,
-    `You found a token with a value of ${cell.tokenValue}.`,
-    "Pick Up Token",
-    () => {
-      inventory = cell.tokenValue;
-      updateInventoryUI();
-      cell.hasToken = false;
-      cell.tokenValue = null;
-      removeTokenMarker(cellID);
-      modifiedCells.save(cellID, cell);
-      map.closePopup();
-    },
-  );
+  // Opened from the cell cursor: move focus into the popup, and back to the
+  // map once it closes
+  if (document.activeElement === mapDiv) {
+    (buttons[0] ?? popupDiv).focus();
+    popup.once("remove", () => mapDiv.focus());
+  }
 }
 
-function craftToken(cellCenter: leaflet.LatLng, cell: Cell, cellID: string) {
-  createPopup(
-    cellCenter,
-    `This token has the same value as your token (${inventory}).`,
-    "Craft them together",
-    () => {
-      cell.tokenValue! += inventory!;
-      if (cell.tokenValue! >= VICTORY_THRESHOLD && !victoryState) {
+// === Rendering engine events ===
+
+function applyEvents(events: GameEvent[]) {
+  for (const event of events) {
+    switch (event.type) {
+      case "cellChanged":
+        gridLayer.redrawCell(event.i, event.j);
+        scheduleMinimapDraw();
+        break;
+      case "inventoryChanged":
+        updateInventoryUI();
+        announce(describeHeldToken());
+        break;
+      case "historyChanged":
+        updateHistoryUI();
+        break;
+      case "achievementUnlocked":
+        showToast(`Achievement unlocked: ${event.achievement.name}`);
+        break;
+      case "victory":
         // Player wins the game
-        alert(
-          `Congratulations! You've crafted a token of value ${VICTORY_THRESHOLD} or more and won the game!`,
+        showSummary(
+          `You won as ${event.goal.name}! ${event.goal.description}`,
         );
-        victoryState = true;
-      }
-      inventory = null;
-      updateInventoryUI();
-      removeTokenMarker(cellID);
-      const newTokenMarker = createTokenMarker(
-        cell.tokenValue!,
-        cellCenter,
-        map,
-      );
-      cellTokenMarkers.set(cellID, newTokenMarker);
-      modifiedCells.save(cellID, cell);
-      map.closePopup();
-    },
-  );
+        break;
+    }
+  }
+
+  // Every engine change is rendered here, so autosave from here too
+  scheduleAutosave();
 }
 
-function placeToken(cellCenter: leaflet.LatLng, cell: Cell, cellID: string) {
-  createPopup(
-    cellCenter,
-    "You have a token. Place token here?",
-    "Place Token",
-    () => {
-      cell.hasToken = true;
-      cell.tokenValue = inventory;
-      inventory = null;
-      updateInventoryUI();
-      const newTokenMarker = createTokenMarker(
-        cell.tokenValue!,
-        cellCenter,
-        map,
-      );
-      cellTokenMarkers.set(cellID, newTokenMarker);
-      modifiedCells.save(cellID, cell);
-      map.closePopup();
-    },
-  );
+// Many cells can change at once (e.g. a world tick); draw the minimap once
+let minimapDrawPending = false;
+
+function scheduleMinimapDraw() {
+  if (minimapDrawPending) return;
+  minimapDrawPending = true;
+  requestAnimationFrame(() => {
+    minimapDrawPending = false;
+    minimap.draw();
+  });
+}
+
+// Run an engine action from a popup button, then render and announce its
+// results
+function runAction(action: () => ActionResult, description: string) {
+  const result = action();
+  if (result.ok) {
+    announce(description);
+    applyEvents(result.events);
+    publishCellChanges(result.events);
+  } else {
+    announce(result.reason);
+  }
+  map.closePopup();
 }
 
 // === Main Game Logic ===
 
-// Movement controllers
-const geoMovement: MovementController = new GeolocationMovementController();
+// Movement controllers step toward compass directions; each step moves as
+// far as from the player's cell to its neighbor that way, which need not be
+// the same size or shape everywhere
+function movePlayerBy(north: number, east: number) {
+  const { lat, lng } = engine.playerPosition;
+  const { i, j } = engine.latLngToCell(lat, lng);
+  const next = engine.neighborCell(i, j, north, east);
+  const from = engine.getCellCenter(i, j);
+  const to = engine.getCellCenter(next.i, next.j);
+  movePlayer(lat + to.lat - from.lat, lng + to.lng - from.lng);
+}
+
+const geoMovement = new GeolocationMovementController(
+  GPS_MAX_ACCURACY_METERS,
+  new PositionKalmanFilter(GPS_PROCESS_NOISE_MPS),
+);
 geoMovement.onMove((lat, lng) => {
   movePlayer(lat, lng);
 });
+geoMovement.onStatusChange(handleGeoStatus);
+updateGeoStatusUI(geoMovement.status);
 
-const buttonMovement: MovementController = new ButtonMovementController(
-  upButton,
-  downButton,
-  leftButton,
-  rightButton,
+const buttonMovement = new ButtonMovementController(
+  CELL_STEP,
+  moveButtonRows.flat().filter((button) => button !== null),
 );
-buttonMovement.onMove((dLat, dLng) => {
-  movePlayer(playerPosition.lat + dLat, playerPosition.lng + dLng);
-});
+buttonMovement.onMove(movePlayerBy);
 
-let activeController: "geo" | "buttons" | null = null;
+const keyboardMovement = new KeyboardMovementController(
+  CELL_STEP,
+  KEY_REPEAT_MS,
+);
+keyboardMovement.onMove(movePlayerBy);
 
-// Start with Geolocation controller by default
-setActiveController("geo");
+const replayMovement = new ReplayMovementController(REPLAY_TICK_MS);
+replayMovement.onMove((lat, lng) => {
+  movePlayer(lat, lng);
+});
+replayMovement.onProgress(updateReplayUI);
 
-// Player Inventory
-let inventory: number | null = null;
-updateInventoryUI();
+const gamepadMovement = new GamepadMovementController(
+  CELL_STEP,
+  GAMEPAD_SLOWEST_STEP_MS,
+  GAMEPAD_FASTEST_STEP_MS,
+);
+gamepadMovement.onMove(movePlayerBy);
+
+// Registry of named controllers; the toggle UI lists the available ones
+const movementControllers = new MovementControllerRegistry();
+movementControllers.register(
+  "geo",
+  "Geolocation",
+  geoMovement,
+  () => "geolocation" in navigator,
+);
+movementControllers.register("buttons", "Buttons", buttonMovement);
+movementControllers.register("keyboard", "Keyboard", keyboardMovement);
+movementControllers.register(
+  "gamepad",
+  "Gamepad",
+  gamepadMovement,
+  GamepadMovementController.isConnected,
+);
+movementControllers.register(
+  "replay",
+  "Route Replay",
+  replayMovement,
+  () => replayMovement.hasTrack,
+);
+buildControllerToggles();
 
-// Grid data structures for cell memory
-const grid: Map<string, Cell> = new Map();
+// Offer the gamepad toggle only while a gamepad is connected
+globalThis.addEventListener("gamepadconnected", buildControllerToggles);
+globalThis.addEventListener("gamepaddisconnected", buildControllerToggles);
 
-// Function to create a cell
-function createCell(i: number, j: number, cell: Cell) {
-  const key = `${i},${j}`;
-  const origin = ORIGIN_COORDINATES;
+// Camera mode: "follow" keeps the player centered, "explore" lets the user
+// drag and zoom freely without the camera snapping back
+let cameraMode: "follow" | "explore" = "follow";
+updateCameraUI();
 
-  const cellBounds = leaflet.latLngBounds(
-    [
-      origin.lat + i * TILE_DEGREES,
-      origin.lng + j * TILE_DEGREES,
-    ],
-    [
-      origin.lat + (i + 1) * TILE_DEGREES,
-      origin.lng + (j + 1) * TILE_DEGREES,
-    ],
-  );
-
-  const rect = leaflet.rectangle(cellBounds);
-  rect.addTo(map);
-  cellRects.set(key, rect);
+// Start with Geolocation controller by default, or buttons without it
+setActiveController("geo");
+if (movementControllers.active === null) {
+  setActiveController("buttons");
+}
 
-  let tokenMarker: leaflet.Marker | undefined = undefined;
-  if (cell.hasToken) {
-    // Add visible token marker in the center of the cell
-    const center = getCellCenter(i, j);
-    tokenMarker = createTokenMarker(cell.tokenValue!, center, map);
-    cellTokenMarkers.set(key, tokenMarker);
-  }
+// Player Inventory
+updateInventoryUI();
+updateHistoryUI();
 
-  rect.on("click", () => handleCellClick(i, j));
+function heldTokenName(): string {
+  const held = engine.inventory.selected;
+  return held ? formatToken(held) : "";
+}
 
-  grid.set(key, cell);
+// e.g. "Lava → Fire 8 (+ Earth 2)"
+function describeRecipe(recipe: Recipe, cellToken: Token): string {
+  const output = makeProduct(recipe.output, cellToken.value);
+  const byproduct = recipe.byproduct
+    ? ` (+ ${formatToken(makeProduct(recipe.byproduct, cellToken.value))})`
+    : "";
+  return `${recipe.name} → ${formatToken(output)}${byproduct}`;
 }
 
 // Function to handle cell clicks
 function handleCellClick(i: number, j: number) {
-  const key = `${i},${j}`;
-  const cell = grid.get(key)!;
   const cellCenter = getCellCenter(i, j);
-  const distance = getDistanceFromPlayer(i, j);
-
-  if (distance > PLAYER_RANGE_METERS) {
-    createPopup(
-      cellCenter,
-      "Too far away!",
-    );
-    return;
-  }
+  const interaction = engine.inspectCell(i, j);
 
-  // If clicked cell has a token
-  if (cell.hasToken && cell.tokenValue !== null) {
-    // If inventory is empty, pick up the token. Use popup and button to confirm
-    if (inventory === null) {
-      pickUpToken(cellCenter, cell, key);
-      return;
-    } // If inventory has a token of the same value, craft them together
-    else if (cell.tokenValue === inventory) {
-      craftToken(cellCenter, cell, key);
-      return;
-    } // If inventory has a different token, do nothing
-    else {
+  switch (interaction.kind) {
+    case "tooFar":
+      // Out-of-range cells are dimmed and inert while exploring
+      if (cameraMode === "follow") {
+        createPopup(cellCenter, "Too far away!");
+      }
+      break;
+    case "loading":
+      createPopup(cellCenter, "This cell is still loading, try again.");
+      break;
+    case "pickUp":
       createPopup(
         cellCenter,
-        "Cannot be crafted with your token.",
+        `You found a ${formatToken(interaction.cellToken)} token.`,
+        [{
+          label: "Pick Up Token",
+          onClick: () =>
+            runAction(
+              () => engine.pickUp(i, j),
+              `Picked up ${formatToken(interaction.cellToken)}.`,
+            ),
+        }],
       );
-      return;
-    }
-  } // Else apply logic for clicking an empty cell
-  else {
-    // If inventory is empty, show message that cell is empty
-    if (inventory === null) {
+      break;
+    case "craft":
+      // One button per recipe that takes your token and this one
       createPopup(
         cellCenter,
-        "This is an empty Cell.",
+        `Craft your ${heldTokenName()} token with this ${
+          formatToken(interaction.cellToken)
+        } token:`,
+        interaction.recipes.map((recipe) => ({
+          label: describeRecipe(recipe, interaction.cellToken),
+          onClick: () =>
+            runAction(
+              () => engine.craft(i, j, recipe.name),
+              `Crafted ${describeRecipe(recipe, interaction.cellToken)}.`,
+            ),
+        })),
       );
-      return;
+      break;
+    case "cannotCraft":
+      createPopup(
+        cellCenter,
+        `This ${
+          formatToken(interaction.cellToken)
+        } token cannot be crafted with your ${heldTokenName()} token.`,
+      );
+      break;
+    case "empty":
+      createPopup(cellCenter, "This is an empty Cell.");
+      break;
+    case "place":
+      createPopup(
+        cellCenter,
+        `You have a ${
+          formatToken(interaction.inventoryToken)
+        } token. Place token here?`,
+        [{
+          label: "Place Token",
+          onClick: () =>
+            runAction(
+              () => engine.place(i, j),
+              `Placed ${formatToken(interaction.inventoryToken)}.`,
+            ),
+        }],
+      );
+      break;
+  }
+}
+
+// Canvas layer draws the grid (redrawing itself whenever the map moves) and
+// hit-tests clicks back to cells
+const gridLayer = new CanvasGridLayer(engine, {
+  detailZoom: GAMEPLAY_ZOOM_LEVEL,
+});
+gridLayer.onCellClick(handleCellClick);
+gridLayer.addTo(map);
+
+// Cells drawn before their chunk came back from the store are redrawn
+engine.onCellsLoaded(applyEvents);
+
+// === Keyboard Cell Cursor ===
+
+const cellCursor = new CellCursor(engine);
+
+function showCursor() {
+  gridLayer.setCursor(cellCursor.reset());
+}
+
+function plural(count: number, unit: string): string {
+  return `${count} ${unit}${count === 1 ? "" : "s"}`;
+}
+
+// e.g. "2 cells north, 1 cell west: Fire 4 token"; on hexagons, "1 row
+// north, 0.5 cells east" for the north-east neighbor
+function describeCursorCell(): string {
+  const { i, j } = cellCursor.reset();
+  const offset = cellCursor.offsetFromPlayer()!;
+  const hex = config.gridType === "hex";
+  // Hexagon rows start half a cell further east going north
+  const east = hex ? offset.j + offset.i / 2 : offset.j;
+  const directions: string[] = [];
+  if (offset.i !== 0) {
+    directions.push(
+      `${plural(Math.abs(offset.i), hex ? "row" : "cell")} ${
+        offset.i > 0 ? "north" : "south"
+      }`,
+    );
+  }
+  if (east !== 0) {
+    directions.push(
+      `${plural(Math.abs(east), "cell")} ${east > 0 ? "east" : "west"}`,
+    );
+  }
+  const where = directions.length > 0 ? directions.join(", ") : "Your cell";
+  const token = engine.getCell(i, j).token;
+  return `${where}: ${token ? `${formatToken(token)} token` : "empty"}`;
+}
+
+mapDiv.addEventListener("focus", () => {
+  showCursor();
+  announce(describeCursorCell());
+});
+mapDiv.addEventListener("blur", () => gridLayer.setCursor(null));
+
+mapDiv.addEventListener("keydown", (event) => {
+  // Keys in popups and other map controls keep their own behavior
+  if (event.target !== mapDiv) return;
+  if (event.ctrlKey || event.metaKey || event.altKey) return;
+
+  if (event.key in CURSOR_KEYS) {
+    // Handled here, so keyboard movement leaves the player in place
+    event.preventDefault();
+    const [di, dj] = CURSOR_KEYS[event.key];
+    if (cellCursor.move(di, dj)) {
+      showCursor();
+      announce(describeCursorCell());
     } else {
-      // Allow player to place token from inventory into the cell
-      placeToken(cellCenter, cell, key);
-      return;
+      announce("That cell is out of range.");
     }
+  } else if (event.key === "Enter" || event.key === " ") {
+    event.preventDefault();
+    const { i, j } = cellCursor.reset();
+    handleCellClick(i, j);
+  } else if (event.key === "+" || event.key === "=") {
+    map.zoomIn();
+  } else if (event.key === "-") {
+    map.zoomOut();
   }
-}
+});
 
-// Function to update visible cells based on map bounds
-function updateVisibleCells(bounds: leaflet.LatLngBounds) {
-  const north = bounds.getNorth();
-  const south = bounds.getSouth();
-  const east = bounds.getEast();
-  const west = bounds.getWest();
+// === Display Preferences ===
 
-  const bottomLeftCellID = latLngToCellID(south, west);
-  const topRightCellID = latLngToCellID(north, east);
+function setHighContrast(enabled: boolean) {
+  highContrast = enabled;
+  document.body.classList.toggle("high-contrast", enabled);
+  highContrastButton.classList.toggle("active", enabled);
+  highContrastButton.setAttribute("aria-pressed", String(enabled));
+  gridLayer.setHighContrast(enabled);
+  updateInventoryUI();
+}
 
-  const [iMin, jMin] = bottomLeftCellID.split(",").map(Number);
-  const [iMax, jMax] = topRightCellID.split(",").map(Number);
+setHighContrast(highContrast);
+highContrastButton.addEventListener("click", () => {
+  setHighContrast(!highContrast);
+  localStorage.setItem(HIGH_CONTRAST_KEY, String(highContrast));
+});
 
-  const visibleCells = new Set<string>();
+function setFogOfWar(enabled: boolean) {
+  fogOfWar = enabled;
+  fogOfWarButton.classList.toggle("active", enabled);
+  fogOfWarButton.setAttribute("aria-pressed", String(enabled));
+  gridLayer.setFog(enabled);
+}
 
-  for (let i = iMin; i <= iMax; i++) {
-    for (let j = jMin; j <= jMax; j++) {
-      const cellID = `${i},${j}`;
-      visibleCells.add(cellID);
+setFogOfWar(fogOfWar);
+fogOfWarButton.addEventListener("click", () => {
+  setFogOfWar(!fogOfWar);
+  localStorage.setItem(FOG_OF_WAR_KEY, String(fogOfWar));
+});
 
-      // Restore modified cell
-      const restoredCell = modifiedCells.restore(cellID);
+// Compare canvas and per-cell layer rendering when opened with ?benchmark
+if (new URLSearchParams(location.search).has("benchmark")) {
+  map.whenReady(() => runGridBenchmark(map, engine, gridLayer));
+}
 
-      if (grid.has(cellID)) {
-        if (restoredCell) {
-          // Update existing cell's state to restored state
-          const cell = grid.get(cellID)!;
-          cell.hasToken = restoredCell.hasToken;
-          cell.tokenValue = restoredCell.tokenValue;
+// === Event Listeners ===
 
-          // Update marker
-          removeTokenMarker(cellID);
-          if (cell.hasToken) {
-            const center = getCellCenter(i, j);
-            const tokenMarker = createTokenMarker(
-              cell.tokenValue!,
-              center,
-              map,
-            );
-            cellTokenMarkers.set(cellID, tokenMarker);
-          }
-        }
+// Load game state once the page has loaded; awaiting the save store may let
+// this module finish after DOMContentLoaded
+if (document.readyState === "loading") {
+  document.addEventListener("DOMContentLoaded", loadGameState);
+} else {
+  loadGameState();
+}
 
-        continue;
-      }
+// Save right away when the page is hidden, as it may never come back
+document.addEventListener("visibilitychange", () => {
+  if (document.visibilityState === "hidden") {
+    saveGameState();
+  }
+});
 
-      // Create cell from restored state if it exists
-      if (restoredCell) {
-        createCell(i, j, restoredCell);
-        continue;
-      }
+// Time passes in the world: cells regrow and decay, and events come and go
+updateWorldEventsUI();
+setInterval(() => {
+  const events = engine.advanceTime();
+  if (events.length > 0) applyEvents(events);
+  updateWorldEventsUI();
+}, WORLD_TICK_MS);
+
+newGameButton.addEventListener("click", promptNewGame);
+statsButton.addEventListener("click", () => showSummary("Game so far"));
+summaryCloseButton.addEventListener("click", () => summaryDialog.close());
+summaryNewGameButton.addEventListener("click", () => {
+  summaryDialog.close();
+  promptNewGame();
+});
 
-      // If cell has never been modified, create it with default logic
-      const spawnWithToken = luck([i, j].toString()) < TOKEN_SPAWN_PROBABILITY;
-      if (spawnWithToken) {
-        createCell(i, j, { hasToken: true, tokenValue: DEFAULT_TOKEN_VALUE });
-      } else {
-        createCell(i, j, { hasToken: false, tokenValue: null });
-      }
-    }
+function promptNewGame() {
+  const preset = prompt(
+    `Game rules (${
+      Object.keys(PRESETS).join(", ")
+    }), or leave blank to keep the current rules:`,
+  );
+  if (preset === null) return;
+  const name = preset.trim().toLowerCase();
+  if (name !== "" && !isPresetName(name)) {
+    alert(`Unknown rules: ${preset}`);
+    return;
   }
 
-  // Remove cells that are no longer visible
-  for (const cellID of grid.keys()) {
-    if (!visibleCells.has(cellID)) {
-      if (cellRects.has(cellID)) {
-        map.removeLayer(cellRects.get(cellID)!);
-        cellRects.delete(cellID);
-      }
+  const seed = prompt(
+    "Enter a world seed to share or replay a world, or leave blank for a random one:",
+  );
+  if (seed === null) return;
 
-      removeTokenMarker(cellID);
+  startNewGame(seed.trim() || randomSeed(), name ? PRESETS[name] : config);
+}
 
-      grid.delete(cellID);
-    }
+loadRulesButton.addEventListener("click", () => loadRulesInput.click());
+loadRulesInput.addEventListener("change", async () => {
+  const file = loadRulesInput.files?.[0];
+  loadRulesInput.value = "";
+  if (!file) return;
+
+  let rules: GameConfig;
+  try {
+    rules = parseGameConfig(await file.text());
+  } catch (error) {
+    if (!(error instanceof GameConfigError)) throw error;
+    alert(`Could not load rules: ${error.message}`);
+    return;
   }
-}
+  if (
+    confirm("Start a new game with these rules? Your current game is replaced.")
+  ) {
+    startNewGame(randomSeed(), rules);
+  }
+});
+
+inventoryTokens.forEach((inventoryToken, index) => {
+  const inventorySlot = inventoryToken.parentElement!;
+  inventorySlot.addEventListener("click", () => {
+    const result = engine.selectSlot(index);
+    if (result.ok) applyEvents(result.events);
+  });
+  inventorySlot.addEventListener("keydown", (event) => {
+    if (event.key === "Enter" || event.key === " ") {
+      event.preventDefault();
+      inventorySlot.click();
+    }
+  });
+});
 
-// Initial population of visible cells
-const initialBounds = map.getBounds();
-updateVisibleCells(initialBounds);
+function undo() {
+  if (syncClient) return;
+  const result = engine.undo();
+  if (result.ok) applyEvents(result.events);
+}
 
-// === Event Listeners ===
+function redo() {
+  if (syncClient) return;
+  const result = engine.redo();
+  if (result.ok) applyEvents(result.events);
+}
 
-// Redraw grid if the map is moved
-map.on("moveend", () => {
-  const bounds = map.getBounds();
-  updateVisibleCells(bounds);
+undoButton.addEventListener("click", undo);
+redoButton.addEventListener("click", redo);
+
+// Ctrl/Cmd+Z undoes; Ctrl/Cmd+Y or Ctrl/Cmd+Shift+Z redoes
+document.addEventListener("keydown", (event) => {
+  if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+  if (event.target instanceof HTMLInputElement) return;
+
+  const key = event.key.toLowerCase();
+  if (key === "z" && !event.shiftKey) {
+    event.preventDefault();
+    undo();
+  } else if (key === "y" || (key === "z" && event.shiftKey)) {
+    event.preventDefault();
+    redo();
+  }
 });
 
-// load game state on page load
-document.addEventListener("DOMContentLoaded", loadGameState);
+exportButton.addEventListener("click", exportGameState);
+importFileButton.addEventListener("click", () => importFileInput.click());
+importFileInput.addEventListener("change", async () => {
+  const file = importFileInput.files?.[0];
+  importFileInput.value = "";
+  if (file) {
+    await importGameState(async () => parseSaveFile(await file.text()));
+  }
+});
+importCodeButton.addEventListener("click", async () => {
+  const code = prompt("Paste a save code or link:");
+  if (code) {
+    await importGameState(() => decodeShareCode(code));
+  }
+});
 
-// Save game state when the page is hidden or unloaded
-document.addEventListener("visibilitychange", () => {
-  if (document.visibilityState === "hidden") {
-    saveGameState();
+// Dragging the map detaches the camera from the player
+map.on("dragstart", () => setCameraMode("explore"));
+loadRouteButton.addEventListener("click", () => loadRouteInput.click());
+loadRouteInput.addEventListener("change", async () => {
+  const file = loadRouteInput.files?.[0];
+  loadRouteInput.value = "";
+  if (!file) return;
+
+  try {
+    replayMovement.loadTrack(parseTrack(await file.text()));
+  } catch (error) {
+    if (!(error instanceof TrackFormatError)) throw error;
+    alert(`Could not load route: ${error.message}`);
+    return;
   }
+  buildControllerToggles();
+  setActiveController("replay");
 });
 
-newGameButton.addEventListener("click", () => {
-  localStorage.removeItem("gameState");
-  modifiedCells.clear();
-  inventory = null;
-  victoryState = false;
+// Recording captures real geolocation fixes and downloads them as GPX
+const routeRecorder = new GeolocationRecorder();
+recordRouteButton.addEventListener("click", () => {
+  if (!routeRecorder.recording) {
+    routeRecorder.start();
+    recordRouteButton.textContent = "Stop Recording";
+    recordRouteButton.classList.add("active");
+    return;
+  }
 
-  // Reload the page to start a fresh session
-  location.reload();
+  const track = routeRecorder.stop();
+  recordRouteButton.textContent = "Record Route";
+  recordRouteButton.classList.remove("active");
+  if (track.length > 0) {
+    downloadFile(
+      `world-of-bits-route-${Date.now()}.gpx`,
+      toGpx(track),
+      "application/gpx+xml",
+    );
+  } else {
+    alert("No positions were recorded.");
+  }
+});
+
+replayPlayButton.addEventListener("click", () => {
+  if (replayMovement.playing) {
+    replayMovement.pause();
+  } else {
+    replayMovement.play();
+  }
+});
+replaySpeedSelect.addEventListener("change", () => {
+  replayMovement.speed = Number(replaySpeedSelect.value);
+});
+replaySeekInput.addEventListener("input", () => {
+  replayMovement.seek(Number(replaySeekInput.value));
 });
 
-geoToggleButton.addEventListener("click", () => setActiveController("geo"));
-buttonToggleButton.addEventListener(
+cameraButton.addEventListener(
   "click",
-  () => setActiveController("buttons"),
+  () => setCameraMode(cameraMode === "follow" ? "explore" : "follow"),
 );
 
 // === Save/Load Game State ===
 
+// Set once another game has been stored for the next page load, so that
+// this page does not overwrite it before unloading
+let reloadPending = false;
+let autosaveTimer: ReturnType<typeof setTimeout> | null = null;
+// Set while saves fail, so the player is only told once
+let saveFailing = false;
+
+// Save the player, inventory and the rest of the non-cell state now
 function saveGameState() {
-  const gameState = {
-    playerPosition: {
-      lat: playerPosition.lat,
-      lng: playerPosition.lng,
-    },
-    inventory: inventory,
-    modifiedCells: modifiedCells.toSerializable(),
-    victoryState: victoryState,
-  };
+  if (autosaveTimer !== null) {
+    clearTimeout(autosaveTimer);
+    autosaveTimer = null;
+  }
+  if (reloadPending) return;
+  saveStore.putMeta(toSaveMeta(engine.toStateWithoutCells(), config)).then(
+    () => saveFailing = false,
+    reportSaveError,
+  );
+}
 
-  localStorage.setItem("gameState", JSON.stringify(gameState));
+// Tell the player once when the game cannot be stored (e.g. storage is
+// full), and again only after a save has worked since
+function reportSaveError(error: unknown) {
+  console.error("Could not save the game:", error);
+  if (saveFailing) return;
+  saveFailing = true;
+  showToast(
+    "Your game could not be saved. Export a save to keep your progress.",
+  );
+}
+
+// Batch rapid changes (e.g. walking) into one write
+function scheduleAutosave() {
+  if (autosaveTimer !== null) {
+    clearTimeout(autosaveTimer);
+  }
+  autosaveTimer = setTimeout(saveGameState, AUTOSAVE_DELAY_MS);
 }
 
-function loadGameState() {
-  const savedState = localStorage.getItem("gameState");
-  if (savedState) {
-    const gameState = JSON.parse(savedState);
+// Store the whole game, cells included, e.g. after loading or importing one
+async function replaceStoredGame() {
+  await saveStore.replace(toSaveFile(engine.toState(), config));
+  engine.modifiedCells.setStoredChunks(await saveStore.storedChunkKeys());
+}
 
-    movePlayer(gameState.playerPosition.lat, gameState.playerPosition.lng);
-    inventory = gameState.inventory;
-    updateInventoryUI();
-    victoryState = gameState.victoryState;
-    modifiedCells.loadEntries(gameState.modifiedCells);
+// Rules shape the whole page (inventory slots, range, spawning), so a game
+// with other rules is stored and started by reloading the page
+async function reloadWithGame(state: EngineState, nextConfig: GameConfig) {
+  reloadPending = true;
+  await saveStore.replace(toSaveFile(state, nextConfig));
+  location.reload();
+}
+
+async function startNewGame(seed: string, nextConfig: GameConfig) {
+  const freshEngine = new GameEngine(toGameRules(nextConfig));
+  freshEngine.reset(seed);
+  await reloadWithGame(freshEngine.toState(), nextConfig);
+}
+
+// Put a validated save into play and redraw everything from it
+// (`storedChunks`: chunks of its cells left in the store to load as needed)
+function applySave(save: SaveFile, storedChunks: number[] = []) {
+  // Another world (or this world at another point) is not what the server has
+  leaveServer();
+  engine.loadState(save);
+  engine.modifiedCells.setStoredChunks(storedChunks);
+
+  movePlayer(engine.playerPosition.lat, engine.playerPosition.lng);
+  updateInventoryUI();
+  updateHistoryUI();
+  updateSeedUI();
+  gridLayer.redraw();
+}
 
-    const bounds = map.getBounds();
-    updateVisibleCells(bounds);
+async function loadGameState() {
+  // A gift link is redeemed into the current game once it is loaded
+  let giftCode: string | null = null;
+  if (location.hash.startsWith(TRANSFER_CODE_FRAGMENT)) {
+    giftCode = location.hash;
+    history.replaceState(null, "", location.pathname + location.search);
   }
+
+  // A share link takes priority over the locally stored save
+  if (location.hash.startsWith(SHARE_CODE_FRAGMENT)) {
+    const code = location.hash;
+    history.replaceState(null, "", location.pathname + location.search);
+    if (
+      confirm("Load the save from this link? Your current game is replaced.")
+    ) {
+      await importGameState(() => decodeShareCode(code));
+      return;
+    }
+  }
+
+  if (startingSave) {
+    applySave(startingSave, await saveStore.storedChunkKeys());
+  } else {
+    // First visit (or unreadable save): start in a freshly seeded world
+    const { lat, lng } = engine.playerPosition;
+    engine.reset(randomSeed());
+    movePlayer(lat, lng);
+    await replaceStoredGame();
+    updateSeedUI();
+    gridLayer.redraw();
+  }
+
+  if (giftCode) {
+    await redeemGift(giftCode);
+  }
+
+  const syncURL = new URLSearchParams(location.search).get("sync");
+  if (syncURL && /^wss?:\/\/.+/.test(syncURL)) {
+    joinServer(syncURL, localStorage.getItem(PLAYER_NAME_KEY) ?? "Player");
+  }
+}
+
+// === Export/Import ===
+
+function downloadFile(fileName: string, contents: string, type: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+async function exportGameState() {
+  const state = await engine.modifiedCells.withAllLoaded(() =>
+    engine.toState()
+  );
+  const save = toSaveFile(state, config);
+
+  // Download the save as a JSON file
+  downloadFile(
+    `world-of-bits-save-${Date.now()}.json`,
+    JSON.stringify(save, null, 2),
+    "application/json",
+  );
+
+  // Also offer a compact link that carries the save in its fragment
+  const code = await encodeShareCode(save);
+  const shareURL = location.origin + location.pathname + SHARE_CODE_FRAGMENT +
+    code;
+  prompt("Share this link to continue the game elsewhere:", shareURL);
+}
+
+async function importGameState(readSave: () => Promise<SaveFile>) {
+  try {
+    const save = await readSave();
+    if (!sameConfig(save.config, config)) {
+      await reloadWithGame(save, save.config);
+      return;
+    }
+    applySave(save);
+    await replaceStoredGame();
+  } catch (error) {
+    if (!(error instanceof SaveFileError)) throw error;
+    alert(`Could not import save: ${error.message}`);
+  }
+}
+
+// === Gifts ===
+
+// Take the selected token out of the game and hand out a signed code for it.
+// The code is made first and kept with the sent gifts, so it can be shared
+// again; it is claimed on this device right away, so the sender cannot
+// redeem it back.
+async function sendSelectedToken() {
+  const token = engine.inventory.selected;
+  if (!token) return;
+  if (
+    !confirm(
+      `Send your ${
+        formatToken(token)
+      }? It leaves your inventory for good, and undo history is cleared.`,
+    )
+  ) {
+    return;
+  }
+
+  const slot = engine.inventory.selectedSlot;
+  try {
+    const keys = await saveStore.signingKeys();
+    const { code, transfer } = await createTransferCode(token, keys);
+    // The selection can change while the code is made
+    if (
+      engine.inventory.selectedSlot !== slot ||
+      engine.inventory.selected !== token
+    ) {
+      alert("Your selected token changed, so nothing was sent.");
+      return;
+    }
+
+    const result = engine.sendSelected();
+    if (!result.ok) return;
+    applyEvents(result.events);
+    try {
+      await saveStore.recordSentGift(transfer.nonce, {
+        link: location.origin + location.pathname + TRANSFER_CODE_FRAGMENT +
+          code,
+        token,
+        sentAt: transfer.sentAt,
+      });
+    } catch (error) {
+      // Without its link the gift could never be redeemed; keep the token
+      const restored = engine.receiveToken(token);
+      if (restored.ok) applyEvents(restored.events);
+      throw error;
+    }
+    saveGameState();
+  } catch (error) {
+    console.error("Could not send token:", error);
+    alert("Could not send the token; it is still in your inventory.");
+    return;
+  }
+  await showSentGifts();
+}
+
+function sentGiftItem(gift: SentGift): HTMLLIElement {
+  const item = document.createElement("li");
+  const label = document.createElement("span");
+  label.textContent = `${formatToken(gift.token)}, ${
+    new Date(gift.sentAt).toLocaleString()
+  }`;
+  const linkInput = document.createElement("input");
+  linkInput.readOnly = true;
+  linkInput.value = gift.link;
+  linkInput.setAttribute("aria-label", "Gift link");
+  const copyButton = document.createElement("button");
+  copyButton.textContent = "Copy";
+  copyButton.addEventListener("click", async () => {
+    try {
+      await navigator.clipboard.writeText(gift.link);
+      showToast("Gift link copied");
+    } catch {
+      // Clipboard access can be refused; the link is still selectable
+      linkInput.select();
+    }
+  });
+  item.append(label, linkInput, copyButton);
+  return item;
+}
+
+// Most recent gift first
+async function showSentGifts() {
+  const gifts = await saveStore.sentGifts();
+  sentGiftsList.replaceChildren(...gifts.reverse().map(sentGiftItem));
+  if (gifts.length === 0) {
+    const item = document.createElement("li");
+    item.textContent = "No gifts sent from this device yet.";
+    sentGiftsList.append(item);
+  }
+  if (!sentGiftsDialog.open) sentGiftsDialog.showModal();
+}
+
+async function redeemGift(code: string) {
+  try {
+    const transfer = await readTransferCode(code);
+    if (!engine.inventory.getSlots().includes(null)) {
+      alert("Your inventory is full. Free a slot and redeem the gift again.");
+      return;
+    }
+    const sender = await senderFingerprint(transfer.sender);
+    if (
+      !confirm(
+        `Redeem ${formatToken(transfer.token)} from sender ${sender}?`,
+      )
+    ) {
+      return;
+    }
+    if (!await saveStore.claimTransfer(transfer.nonce)) {
+      alert("This gift has already been sent or redeemed on this device.");
+      return;
+    }
+
+    const result = engine.receiveToken(transfer.token);
+    if (!result.ok) {
+      alert(result.reason);
+      return;
+    }
+    applyEvents(result.events);
+    saveGameState();
+    showToast(`Received ${formatToken(transfer.token)}`);
+  } catch (error) {
+    if (!(error instanceof TransferError)) throw error;
+    alert(`Could not redeem gift: ${error.message}`);
+  }
+}
+
+sendTokenButton.addEventListener("click", sendSelectedToken);
+sentGiftsButton.addEventListener("click", showSentGifts);
+sentGiftsCloseButton.addEventListener("click", () => sentGiftsDialog.close());
+redeemGiftButton.addEventListener("click", async () => {
+  const code = prompt("Paste a gift code or link:");
+  if (code) {
+    await redeemGift(code);
+  }
+});
+
+// === Shared World ===
+
+// Stable per browser, so a reconnect is recognized as the same player
+function getPlayerID(): string {
+  let playerID = localStorage.getItem(PLAYER_ID_KEY);
+  if (!playerID) {
+    playerID = crypto.randomUUID();
+    localStorage.setItem(PLAYER_ID_KEY, playerID);
+  }
+  return playerID;
+}
+
+const SYNC_STATUS_LABELS: Record<SyncStatus, string> = {
+  connecting: "Connecting…",
+  connected: "Online",
+  disconnected: "Reconnecting…",
+};
+
+function updateSyncUI() {
+  syncButton.textContent = syncClient ? "Leave Server" : "Join Server";
+  syncStatusSpan.textContent = syncClient
+    ? SYNC_STATUS_LABELS[syncClient.status]
+    : "";
+  syncStatusSpan.className = syncClient
+    ? `sync-status sync-status-${syncClient.status}`
+    : "";
+  updateHistoryUI();
+}
+
+function clearRemotePlayers() {
+  for (const marker of remotePlayerMarkers.values()) {
+    marker.remove();
+  }
+  remotePlayerMarkers.clear();
 }
+
+function showRemotePlayer(player: PlayerRecord) {
+  const existing = remotePlayerMarkers.get(player.playerID);
+  if (!player.position) {
+    existing?.remove();
+    remotePlayerMarkers.delete(player.playerID);
+    return;
+  }
+  if (existing) {
+    existing.setLatLng(player.position);
+    existing.setTooltipContent(player.name);
+    return;
+  }
+  const marker = leaflet.circleMarker(player.position, {
+    radius: 8,
+    className: "remote-player",
+  });
+  marker.bindTooltip(player.name, { permanent: true, direction: "top" });
+  marker.addTo(map);
+  remotePlayerMarkers.set(player.playerID, marker);
+}
+
+// Send this player's accepted changes to the other players
+function publishCellChanges(events: GameEvent[]) {
+  if (!syncClient) return;
+  for (const event of events) {
+    if (event.type !== "cellChanged") continue;
+    // The memento also says when the cell changed
+    const { i, j } = engine.wrapCell(event.i, event.j);
+    const memento = engine.modifiedCells.get(i, j);
+    if (memento) syncClient.publishCell(cellKey(i, j), memento);
+  }
+}
+
+function joinServer(url: string, name: string) {
+  leaveServer();
+  localStorage.setItem(PLAYER_NAME_KEY, name);
+
+  syncClient = new SyncClient(
+    new WebSocketSyncBackend(url, SYNC_RETRY_MS),
+    worldKey(engine.seed, config),
+    getPlayerID(),
+    name,
+    {
+      localCells: () =>
+        engine.modifiedCells.withAllLoaded(() =>
+          engine.modifiedCells.toSerializable()
+        ),
+      remoteCell: (cellID, memento) => {
+        const { i, j } = parseCellKey(cellID);
+        applyEvents(engine.applyRemoteCell(i, j, memento));
+      },
+      rejected: (cellID, memento) => {
+        const { i, j } = parseCellKey(cellID);
+        const events = engine.rejectAction(i, j, memento);
+        applyEvents(events);
+        // The first event is the server's cell; the rest are this player's
+        publishCellChanges(events.slice(1));
+        showToast(
+          "Another player changed that cell first; your move was undone.",
+        );
+      },
+      player: showRemotePlayer,
+      playerLeft: (playerID) => {
+        remotePlayerMarkers.get(playerID)?.remove();
+        remotePlayerMarkers.delete(playerID);
+      },
+      status: (status) => {
+        // Positions go stale while disconnected; the welcome resends them
+        if (status !== "connected") clearRemotePlayers();
+        updateSyncUI();
+      },
+    },
+  );
+  syncClient.publishPosition(engine.playerPosition);
+  syncClient.start();
+  updateSyncUI();
+}
+
+function leaveServer() {
+  if (!syncClient) return;
+  syncClient.stop();
+  syncClient = null;
+  clearRemotePlayers();
+  updateSyncUI();
+}
+
+syncButton.addEventListener("click", () => {
+  if (syncClient) {
+    leaveServer();
+    return;
+  }
+
+  const url = prompt("Sync server address:", DEFAULT_SYNC_URL)?.trim();
+  if (!url) return;
+  if (!/^wss?:\/\/.+/.test(url)) {
+    alert("The address must start with ws:// or wss://");
+    return;
+  }
+  const name = prompt(
+    "Your name, shown to other players:",
+    localStorage.getItem(PLAYER_NAME_KEY) ?? "Player",
+  );
+  if (!name) return;
+  joinServer(url, name.trim());
+});
@@ -0,0 +1,90 @@
+// Small overview map around the player: cells seen and visited, and tokens
+// players have left in the world. Drawn straight from the engine, north up.
+
+import { TOKEN_FILLS } from "./canvasGridLayer.ts";
+import type { GameEngine } from "./gameEngine.ts";
+
+const FOG_FILL = "#3c4048";
+const REVEALED_FILL = "#dbe4ee";
+const VISITED_FILL = "#8fb8f0";
+const PLAYER_FILL = "#e03131";
+const PLAYER_STROKE = "#fff";
+
+export class Minimap {
+  readonly canvas = document.createElement("canvas");
+  private context = this.canvas.getContext("2d")!;
+
+  // Shows `radiusCells` cells on each side of the player's cell
+  constructor(
+    private engine: GameEngine,
+    private radiusCells: number,
+    private cellPixels: number,
+  ) {
+    const size = (2 * radiusCells + 1) * cellPixels;
+    this.canvas.width = size;
+    this.canvas.height = size;
+    this.canvas.className = "minimap";
+    this.canvas.setAttribute("role", "img");
+    this.canvas.setAttribute(
+      "aria-label",
+      "Minimap of the cells around you, the cells you have visited and the tokens players have left",
+    );
+  }
+
+  draw() {
+    const ctx = this.context;
+    const { lat, lng } = this.engine.playerPosition;
+    const player = this.engine.latLngToCell(lat, lng);
+    const radius = this.radiusCells;
+    const size = this.cellPixels;
+    // Hexagon rows are laid out like bricks, each half a cell further east
+    // than the one below
+    const hex = this.engine.rules.projection.gridType === "hex";
+    const shift = (di: number) => hex ? di / 2 : 0;
+
+    for (let di = -radius; di <= radius; di++) {
+      const djMin = -radius - Math.ceil(shift(di));
+      const djMax = radius - Math.floor(shift(di));
+      for (let dj = djMin; dj <= djMax; dj++) {
+        const i = player.i + di;
+        const j = player.j + dj;
+        const x = (dj + shift(di) + radius) * size;
+        const y = (radius - di) * size;
+
+        ctx.fillStyle = this.engine.hasVisited(i, j)
+          ? VISITED_FILL
+          : this.engine.isRevealed(i, j)
+          ? REVEALED_FILL
+          : FOG_FILL;
+        ctx.fillRect(x, y, size, size);
+      }
+    }
+
+    // Tokens placed or crafted in view, while they are still in their cells
+    const modified = this.engine.modifiedInRange({
+      iMin: player.i - radius,
+      iMax: player.i + radius,
+      jMin: player.j - radius - Math.ceil(shift(radius)),
+      jMax: player.j + radius + Math.ceil(shift(radius)),
+    });
+    for (const { i, j, value } of modified) {
+      const token = value.token && this.engine.peekCell(i, j).token;
+      if (!token) continue;
+      const x = (j - player.j + shift(i - player.i) + radius + 0.5) * size;
+      const y = (player.i - i + radius + 0.5) * size;
+      ctx.fillStyle = TOKEN_FILLS[token.element];
+      ctx.beginPath();
+      ctx.arc(x, y, size / 2.5, 0, 2 * Math.PI);
+      ctx.fill();
+    }
+
+    const center = (radius + 0.5) * size;
+    ctx.beginPath();
+    ctx.arc(center, center, size * 0.7, 0, 2 * Math.PI);
+    ctx.fillStyle = PLAYER_FILL;
+    ctx.fill();
+    ctx.lineWidth = 1.5;
+    ctx.strokeStyle = PLAYER_STROKE;
+    ctx.stroke();
+  }
+}
@@ -0,0 +1,406 @@
+// Movement controllers behind a common facade, plus a registry of the
+// controllers the player can switch between.
+
+// === Facade Implementation ===
+
+// Facade
+export interface MovementController {
+  start(): void;
+  stop(): void;
+  onMove(callback: (dLat: number, dLng: number) => void): void;
+}
+
+// Reported state of the geolocation feed, shown to the player
+export type GeolocationStatus =
+  | "acquiring"
+  | "active"
+  | "denied"
+  | "unavailable";
+
+// Kalman filter over latitude and longitude: each fix pulls the estimate
+// toward it in proportion to how much more certain it is than the estimate,
+// and the estimate grows less certain as time passes without fixes
+export class PositionKalmanFilter {
+  private lat = 0;
+  private lng = 0;
+  private time = 0;
+  // Estimate variance in square meters; negative until the first fix
+  private variance = -1;
+
+  // How fast the true position may drift, in meters per second
+  constructor(private processNoiseMps: number) {}
+
+  update(
+    lat: number,
+    lng: number,
+    accuracyMeters: number,
+    time: number,
+  ): { lat: number; lng: number } {
+    const measurementVariance = Math.max(accuracyMeters, 1) ** 2;
+
+    if (this.variance < 0) {
+      this.lat = lat;
+      this.lng = lng;
+      this.variance = measurementVariance;
+    } else {
+      const elapsedSeconds = Math.max(0, time - this.time) / 1000;
+      this.variance += elapsedSeconds * this.processNoiseMps ** 2;
+
+      const gain = this.variance / (this.variance + measurementVariance);
+      this.lat += gain * (lat - this.lat);
+      this.lng += gain * (lng - this.lng);
+      this.variance *= 1 - gain;
+    }
+    this.time = time;
+    return { lat: this.lat, lng: this.lng };
+  }
+
+  reset() {
+    this.variance = -1;
+  }
+}
+
+// Geolocation-based movement controller: fixes less accurate than
+// `maxAccuracyMeters` are dropped and the rest are smoothed before moving
+export class GeolocationMovementController implements MovementController {
+  private callback: ((dLat: number, dLng: number) => void) | null = null;
+  private statusCallback: ((status: GeolocationStatus) => void) | null = null;
+  private watchID: number | null = null;
+  private currentStatus: GeolocationStatus = "acquiring";
+
+  constructor(
+    private maxAccuracyMeters: number,
+    private filter: PositionKalmanFilter,
+  ) {}
+
+  get status(): GeolocationStatus {
+    return this.currentStatus;
+  }
+
+  start() {
+    if (!navigator.geolocation) {
+      this.setStatus("unavailable");
+      return;
+    }
+
+    this.filter.reset();
+    this.setStatus("acquiring");
+    this.watchID = navigator.geolocation.watchPosition(
+      this.handlePosition,
+      this.handleError,
+      { enableHighAccuracy: true, maximumAge: 1000, timeout: 5000 },
+    );
+  }
+
+  stop() {
+    if (this.watchID !== null) {
+      navigator.geolocation.clearWatch(this.watchID);
+      this.watchID = null;
+    }
+  }
+
+  onMove(callback: (dLat: number, dLng: number) => void) {
+    this.callback = callback;
+  }
+
+  onStatusChange(callback: (status: GeolocationStatus) => void) {
+    this.statusCallback = callback;
+  }
+
+  private handlePosition = (position: GeolocationPosition) => {
+    const { latitude, longitude, accuracy } = position.coords;
+    // Too coarse to place the player in a cell; wait for a better fix
+    if (accuracy > this.maxAccuracyMeters) return;
+
+    this.setStatus("active");
+    const smoothed = this.filter.update(
+      latitude,
+      longitude,
+      accuracy,
+      position.timestamp,
+    );
+    if (this.callback) {
+      this.callback(smoothed.lat, smoothed.lng);
+    }
+  };
+
+  private handleError = (error: GeolocationPositionError) => {
+    console.error("Geolocation error:", error);
+    if (error.code === error.PERMISSION_DENIED) {
+      this.stop();
+      this.setStatus("denied");
+    } else if (error.code === error.POSITION_UNAVAILABLE) {
+      this.setStatus("unavailable");
+    }
+    // Timeouts keep watching; the next fix may still arrive
+  };
+
+  private setStatus(status: GeolocationStatus) {
+    if (this.currentStatus === status) return;
+    this.currentStatus = status;
+    this.statusCallback?.(status);
+  }
+}
+
+// A movement button and the compass direction it steps toward: north and
+// east are each -1, 0 or 1
+export interface MoveButton {
+  button: HTMLButtonElement;
+  north: number;
+  east: number;
+}
+
+// Button-based movement controller, with one button per direction the grid
+// allows (four for square cells, six for hexagons)
+export class ButtonMovementController implements MovementController {
+  private callback: ((dLat: number, dLng: number) => void) | null = null;
+  private handlers: (() => void)[];
+
+  constructor(private step: number, private buttons: MoveButton[]) {
+    this.handlers = buttons.map(({ north, east }) => () =>
+      this.move(north * this.step, east * this.step)
+    );
+  }
+
+  start() {
+    this.buttons.forEach(({ button }, index) =>
+      button.addEventListener("click", this.handlers[index])
+    );
+  }
+
+  stop() {
+    this.buttons.forEach(({ button }, index) =>
+      button.removeEventListener("click", this.handlers[index])
+    );
+  }
+
+  onMove(callback: (dLat: number, dLng: number) => void) {
+    this.callback = callback;
+  }
+
+  private move = (dLat: number, dLng: number) => {
+    if (this.callback) {
+      this.callback(dLat, dLng);
+    }
+  };
+}
+
+// Keyboard movement controller: WASD or arrow keys, with diagonals when two
+// keys are held and steady repeats while keys stay down
+export class KeyboardMovementController implements MovementController {
+  private callback: ((dLat: number, dLng: number) => void) | null = null;
+  private heldKeys = new Set<string>();
+  private repeatTimer: ReturnType<typeof setInterval> | null = null;
+
+  private static readonly DIRECTIONS: Record<string, [number, number]> = {
+    ArrowUp: [1, 0],
+    KeyW: [1, 0],
+    ArrowDown: [-1, 0],
+    KeyS: [-1, 0],
+    ArrowLeft: [0, -1],
+    KeyA: [0, -1],
+    ArrowRight: [0, 1],
+    KeyD: [0, 1],
+  };
+
+  constructor(private step: number, private repeatMs: number) {}
+
+  start() {
+    document.addEventListener("keydown", this.handleKeyDown);
+    document.addEventListener("keyup", this.handleKeyUp);
+    globalThis.addEventListener("blur", this.releaseAll);
+  }
+
+  stop() {
+    document.removeEventListener("keydown", this.handleKeyDown);
+    document.removeEventListener("keyup", this.handleKeyUp);
+    globalThis.removeEventListener("blur", this.releaseAll);
+    this.releaseAll();
+  }
+
+  onMove(callback: (dLat: number, dLng: number) => void) {
+    this.callback = callback;
+  }
+
+  private handleKeyDown = (event: KeyboardEvent) => {
+    if (!(event.code in KeyboardMovementController.DIRECTIONS)) return;
+    // Already used, e.g. to move the cell cursor on the focused map
+    if (event.defaultPrevented) return;
+    if (event.ctrlKey || event.metaKey || event.altKey) return;
+    if (event.target instanceof HTMLInputElement) return;
+    event.preventDefault();
+
+    // Ignore the OS key repeat; our own timer paces repeated steps
+    if (event.repeat || this.heldKeys.has(event.code)) return;
+    this.heldKeys.add(event.code);
+    this.move();
+    if (this.repeatTimer === null) {
+      this.repeatTimer = setInterval(this.move, this.repeatMs);
+    }
+  };
+
+  private handleKeyUp = (event: KeyboardEvent) => {
+    this.heldKeys.delete(event.code);
+    if (this.heldKeys.size === 0) {
+      this.releaseAll();
+    }
+  };
+
+  private releaseAll = () => {
+    this.heldKeys.clear();
+    if (this.repeatTimer !== null) {
+      clearInterval(this.repeatTimer);
+      this.repeatTimer = null;
+    }
+  };
+
+  // Combine held keys so e.g. W + D moves north-east
+  private move = () => {
+    let dLat = 0;
+    let dLng = 0;
+    for (const code of this.heldKeys) {
+      const [rows, cols] = KeyboardMovementController.DIRECTIONS[code];
+      dLat += rows;
+      dLng += cols;
+    }
+    dLat = Math.sign(dLat);
+    dLng = Math.sign(dLng);
+    if ((dLat !== 0 || dLng !== 0) && this.callback) {
+      this.callback(dLat * this.step, dLng * this.step);
+    }
+  };
+}
+
+// Gamepad API movement controller: the left stick (or d-pad) moves one tile
+// per step, stepping faster the further the stick is pushed
+export class GamepadMovementController implements MovementController {
+  private callback: ((dLat: number, dLng: number) => void) | null = null;
+  private frameID: number | null = null;
+  private lastStepTime = 0;
+
+  private static readonly DEAD_ZONE = 0.4;
+  // Standard gamepad mapping d-pad buttons
+  private static readonly DPAD_UP = 12;
+  private static readonly DPAD_DOWN = 13;
+  private static readonly DPAD_LEFT = 14;
+  private static readonly DPAD_RIGHT = 15;
+
+  constructor(
+    private step: number,
+    private slowestStepMs: number,
+    private fastestStepMs: number,
+  ) {}
+
+  static isConnected(): boolean {
+    return typeof navigator.getGamepads === "function" &&
+      navigator.getGamepads().some((gamepad) => gamepad !== null);
+  }
+
+  start() {
+    if (this.frameID === null) {
+      this.frameID = requestAnimationFrame(this.poll);
+    }
+  }
+
+  stop() {
+    if (this.frameID !== null) {
+      cancelAnimationFrame(this.frameID);
+      this.frameID = null;
+    }
+  }
+
+  onMove(callback: (dLat: number, dLng: number) => void) {
+    this.callback = callback;
+  }
+
+  private poll = (time: number) => {
+    this.frameID = requestAnimationFrame(this.poll);
+
+    const pad = navigator.getGamepads().find((gamepad) => gamepad !== null);
+    if (!pad) return;
+
+    const { DEAD_ZONE, DPAD_UP, DPAD_DOWN, DPAD_LEFT, DPAD_RIGHT } =
+      GamepadMovementController;
+    const pressed = (index: number) => pad.buttons[index]?.pressed ?? false;
+
+    // Stick y points down, so north is negative
+    const stickX = pad.axes[0] ?? 0;
+    const stickY = pad.axes[1] ?? 0;
+    const dLat = Math.sign(
+      (Math.abs(stickY) > DEAD_ZONE ? -stickY : 0) +
+        (pressed(DPAD_UP) ? 1 : 0) - (pressed(DPAD_DOWN) ? 1 : 0),
+    );
+    const dLng = Math.sign(
+      (Math.abs(stickX) > DEAD_ZONE ? stickX : 0) +
+        (pressed(DPAD_RIGHT) ? 1 : 0) - (pressed(DPAD_LEFT) ? 1 : 0),
+    );
+    if (dLat === 0 && dLng === 0) {
+      this.lastStepTime = 0;
+      return;
+    }
+
+    // Full tilt (or the d-pad) steps at the fastest rate
+    const dPad = pressed(DPAD_UP) || pressed(DPAD_DOWN) ||
+      pressed(DPAD_LEFT) || pressed(DPAD_RIGHT);
+    const tilt = dPad ? 1 : Math.min(
+      1,
+      (Math.hypot(stickX, stickY) - DEAD_ZONE) / (1 - DEAD_ZONE),
+    );
+    const interval = this.slowestStepMs -
+      tilt * (this.slowestStepMs - this.fastestStepMs);
+    if (this.lastStepTime !== 0 && time - this.lastStepTime < interval) return;
+
+    this.lastStepTime = time;
+    if (this.callback) {
+      this.callback(dLat * this.step, dLng * this.step);
+    }
+  };
+}
+
+// === Controller Registry ===
+
+interface RegisteredController {
+  name: string;
+  label: string;
+  controller: MovementController;
+  isAvailable: () => boolean;
+}
+
+// Named movement controllers, of which at most one is active at a time
+export class MovementControllerRegistry {
+  private controllers = new Map<string, RegisteredController>();
+  private activeName: string | null = null;
+
+  register(
+    name: string,
+    label: string,
+    controller: MovementController,
+    isAvailable: () => boolean = () => true,
+  ) {
+    this.controllers.set(name, { name, label, controller, isAvailable });
+  }
+
+  // Controllers usable in this browser, in registration order
+  available(): { name: string; label: string }[] {
+    return Array.from(this.controllers.values())
+      .filter((entry) => entry.isAvailable())
+      .map(({ name, label }) => ({ name, label }));
+  }
+
+  get active(): string | null {
+    return this.activeName;
+  }
+
+  setActive(name: string): boolean {
+    const next = this.controllers.get(name);
+    if (!next || !next.isAvailable()) return false;
+    if (this.activeName === name) return true;
+
+    if (this.activeName !== null) {
+      this.controllers.get(this.activeName)!.controller.stop();
+    }
+    next.controller.start();
+    this.activeName = name;
+    return true;
+  }
+}
@@ -0,0 +1,319 @@
+// Recorded routes: GPX/GeoJSON track parsing, GPX writing, a movement
+// controller that replays a track, and a recorder for real geolocation walks.
+
+import { distanceMeters, type LatLng } from "./gameEngine.ts";
+import type { MovementController } from "./movement.ts";
+
+// Assumed pace for tracks that carry no timestamps
+const WALKING_SPEED_MPS = 1.4;
+
+export interface TrackPoint extends LatLng {
+  time: number; // ms since the epoch
+}
+
+export class TrackFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TrackFormatError";
+  }
+}
+
+// === Parsing ===
+
+// Fill in missing times by walking between points at a steady pace
+function withTimes(points: (LatLng & { time: number | null })[]): TrackPoint[] {
+  if (points.length === 0) {
+    throw new TrackFormatError("Track has no points");
+  }
+
+  const track: TrackPoint[] = [];
+  let time = points[0].time ?? 0;
+  points.forEach((point, index) => {
+    if (index > 0) {
+      const walked = distanceMeters(points[index - 1], point) /
+        WALKING_SPEED_MPS * 1000;
+      time = point.time !== null && point.time >= time
+        ? point.time
+        : time + walked;
+    }
+    track.push({ lat: point.lat, lng: point.lng, time });
+  });
+  return track;
+}
+
+// Replayed points become the player's position, so they must be real places
+function isValidPoint(lat: number, lng: number): boolean {
+  return Number.isFinite(lat) && Number.isFinite(lng) && Math.abs(lat) <= 90 &&
+    Math.abs(lng) <= 180;
+}
+
+function parseTime(text: string | null | undefined): number | null {
+  if (!text) return null;
+  const time = Date.parse(text);
+  return Number.isNaN(time) ? null : time;
+}
+
+export function parseGpx(text: string): TrackPoint[] {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.querySelector("parsererror")) {
+    throw new TrackFormatError("GPX file is not valid XML");
+  }
+
+  // Prefer track points, falling back to route points
+  let elements = Array.from(doc.getElementsByTagName("trkpt"));
+  if (elements.length === 0) {
+    elements = Array.from(doc.getElementsByTagName("rtept"));
+  }
+  return withTimes(elements.map((element) => {
+    // Number() reads a missing or blank attribute as 0
+    const latText = element.getAttribute("lat")?.trim();
+    const lngText = element.getAttribute("lon")?.trim();
+    if (!latText || !lngText) {
+      throw new TrackFormatError("GPX point is missing its coordinates");
+    }
+    const lat = Number(latText);
+    const lng = Number(lngText);
+    if (!isValidPoint(lat, lng)) {
+      throw new TrackFormatError("GPX point has invalid coordinates");
+    }
+    const time = parseTime(
+      element.getElementsByTagName("time")[0]?.textContent,
+    );
+    return { lat, lng, time };
+  }));
+}
+
+// Loose shape of the GeoJSON objects a track may arrive in
+interface GeoJsonObject {
+  type?: string;
+  features?: GeoJsonObject[];
+  geometry?: GeoJsonObject;
+  properties?: { coordTimes?: unknown[] };
+  coordinates?: unknown[];
+}
+
+// Accepts a LineString geometry, Feature or the first LineString feature of a
+// FeatureCollection; times come from `properties.coordTimes` when present
+export function parseGeoJson(text: string): TrackPoint[] {
+  let json: GeoJsonObject | null;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new TrackFormatError("GeoJSON file is not valid JSON");
+  }
+
+  let feature: GeoJsonObject | undefined;
+  if (json?.type === "FeatureCollection") {
+    feature = json.features?.find((f) => f?.geometry?.type === "LineString");
+  } else if (json?.type === "Feature") {
+    feature = json;
+  } else if (json) {
+    feature = { geometry: json };
+  }
+  const coordinates = feature?.geometry?.coordinates;
+  if (
+    feature?.geometry?.type !== "LineString" || !Array.isArray(coordinates)
+  ) {
+    throw new TrackFormatError("GeoJSON has no LineString");
+  }
+
+  const times = feature.properties?.coordTimes ?? [];
+  return withTimes(coordinates.map((coordinate, index) => {
+    if (
+      !Array.isArray(coordinate) || typeof coordinate[0] !== "number" ||
+      typeof coordinate[1] !== "number" ||
+      !isValidPoint(coordinate[1], coordinate[0])
+    ) {
+      throw new TrackFormatError("GeoJSON point has invalid coordinates");
+    }
+    const time = times[index];
+    return {
+      lat: coordinate[1],
+      lng: coordinate[0],
+      time: typeof time === "number" ? time : parseTime(String(time ?? "")),
+    };
+  }));
+}
+
+export function parseTrack(text: string): TrackPoint[] {
+  return text.trimStart().startsWith("<") ? parseGpx(text) : parseGeoJson(text);
+}
+
+// === Writing ===
+
+export function toGpx(track: TrackPoint[]): string {
+  const points = track.map((point) =>
+    `      <trkpt lat="${point.lat}" lon="${point.lng}">` +
+    `<time>${new Date(point.time).toISOString()}</time></trkpt>`
+  );
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="World of Bits" xmlns="http://www.topografix.com/GPX/1/1">',
+    "  <trk>",
+    "    <trkseg>",
+    ...points,
+    "    </trkseg>",
+    "  </trk>",
+    "</gpx>",
+    "",
+  ].join("\n");
+}
+
+// === Replay ===
+
+// Replays a track through onMove with absolute positions, like geolocation
+export class ReplayMovementController implements MovementController {
+  private callback: ((lat: number, lng: number) => void) | null = null;
+  private progressCallback: (() => void) | null = null;
+  private track: TrackPoint[] = [];
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private lastTick = 0;
+
+  // Track time played so far, in ms from the first point
+  private elapsed = 0;
+  speed = 1;
+
+  constructor(private tickMs: number) {}
+
+  get hasTrack(): boolean {
+    return this.track.length > 0;
+  }
+
+  get playing(): boolean {
+    return this.timer !== null;
+  }
+
+  get duration(): number {
+    if (!this.hasTrack) return 0;
+    return this.track.at(-1)!.time - this.track[0].time;
+  }
+
+  get position(): number {
+    return this.elapsed;
+  }
+
+  loadTrack(track: TrackPoint[]) {
+    this.pause();
+    this.track = track;
+    this.elapsed = 0;
+    this.progressCallback?.();
+  }
+
+  start() {
+    this.play();
+  }
+
+  stop() {
+    this.pause();
+  }
+
+  onMove(callback: (lat: number, lng: number) => void) {
+    this.callback = callback;
+  }
+
+  onProgress(callback: () => void) {
+    this.progressCallback = callback;
+  }
+
+  play() {
+    if (this.playing || !this.hasTrack) return;
+    // Restart from the beginning once the end was reached
+    if (this.elapsed >= this.duration) this.elapsed = 0;
+    this.lastTick = performance.now();
+    this.timer = setInterval(this.tick, this.tickMs);
+    this.emit();
+  }
+
+  pause() {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.progressCallback?.();
+  }
+
+  seek(elapsed: number) {
+    this.elapsed = Math.min(Math.max(elapsed, 0), this.duration);
+    this.lastTick = performance.now();
+    this.emit();
+  }
+
+  private tick = () => {
+    const now = performance.now();
+    this.elapsed += (now - this.lastTick) * this.speed;
+    this.lastTick = now;
+    if (this.elapsed >= this.duration) {
+      this.elapsed = this.duration;
+      this.emit();
+      this.pause();
+      return;
+    }
+    this.emit();
+  };
+
+  private emit() {
+    if (!this.hasTrack) return;
+    const { lat, lng } = this.positionAt(this.track[0].time + this.elapsed);
+    this.callback?.(lat, lng);
+    this.progressCallback?.();
+  }
+
+  // Interpolate between the two points around the given time
+  private positionAt(time: number): LatLng {
+    const track = this.track;
+    let low = 0;
+    let high = track.length - 1;
+    if (time <= track[low].time) return track[low];
+    if (time >= track[high].time) return track[high];
+
+    while (high - low > 1) {
+      const mid = (low + high) >> 1;
+      if (track[mid].time <= time) low = mid;
+      else high = mid;
+    }
+    const from = track[low];
+    const to = track[high];
+    const t = (time - from.time) / (to.time - from.time);
+    return {
+      lat: from.lat + (to.lat - from.lat) * t,
+      lng: from.lng + (to.lng - from.lng) * t,
+    };
+  }
+}
+
+// === Recording ===
+
+// Records real geolocation fixes into a track for later replay
+export class GeolocationRecorder {
+  private watchID: number | null = null;
+  private points: TrackPoint[] = [];
+
+  get recording(): boolean {
+    return this.watchID !== null;
+  }
+
+  start() {
+    if (this.recording || !navigator.geolocation) return;
+    this.points = [];
+    this.watchID = navigator.geolocation.watchPosition(
+      (position) => {
+        this.points.push({
+          lat: position.coords.latitude,
+          lng: position.coords.longitude,
+          time: position.timestamp,
+        });
+      },
+      (error) => console.error("Geolocation recording error:", error),
+      { enableHighAccuracy: true, maximumAge: 1000, timeout: 5000 },
+    );
+  }
+
+  // Stop recording and return the captured track
+  stop(): TrackPoint[] {
+    if (this.watchID !== null) {
+      navigator.geolocation.clearWatch(this.watchID);
+      this.watchID = null;
+    }
+    return [...this.points];
+  }
+}
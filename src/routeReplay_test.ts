@@ -0,0 +1,50 @@
+// Tests for reading GeoJSON tracks (GPX needs the browser's DOMParser).
+//
+//   deno task test
+
+import assert from "node:assert/strict";
+
+import { parseGeoJson, TrackFormatError } from "./routeReplay.ts";
+
+function lineString(coordinates: unknown[]): string {
+  return JSON.stringify({ type: "LineString", coordinates });
+}
+
+Deno.test("parseGeoJson reads points and walks between them", () => {
+  const track = parseGeoJson(lineString([[-122.06, 36.98], [-122.06, 36.99]]));
+  assert.equal(track.length, 2);
+  assert.deepEqual(
+    track.map(({ lat, lng }) => [lat, lng]),
+    [[36.98, -122.06], [36.99, -122.06]],
+  );
+  // About 1.1 km at walking pace
+  assert.ok(track[1].time - track[0].time > 700_000);
+});
+
+Deno.test("parseGeoJson refuses points that are not on Earth", () => {
+  for (
+    const coordinate of [
+      [0, 200],
+      [0, -90.5],
+      [181, 0],
+      [-180.01, 10],
+      ["1", "2"],
+      [null, null],
+      [1],
+    ]
+  ) {
+    assert.throws(
+      () => parseGeoJson(lineString([[0, 0], coordinate])),
+      TrackFormatError,
+      JSON.stringify(coordinate),
+    );
+  }
+});
+
+Deno.test("parseGeoJson accepts the poles and the antimeridian", () => {
+  const track = parseGeoJson(lineString([[180, 90], [-180, -90]]));
+  assert.deepEqual(
+    track.map(({ lat, lng }) => [lat, lng]),
+    [[90, 180], [-90, -180]],
+  );
+});
@@ -0,0 +1,509 @@
+// Versioned save file format: schema, runtime validation and migrations.
+
+import { fromBase64Url, toBase64Url } from "./base64Url.ts";
+import { CellSet, isCellSetState } from "./cellSet.ts";
+import { isElement, isToken, type Token } from "./crafting.ts";
+import {
+  DEFAULT_CONFIG,
+  DEFAULT_ELEMENT_WEIGHTS,
+  DEFAULT_TIME,
+  type GameConfig,
+  GameConfigError,
+  validateGameConfig,
+} from "./gameConfig.ts";
+import type { CellMemento, EngineState, LatLng } from "./gameEngine.ts";
+import type { CellAction, HistoryState } from "./history.ts";
+import type { InventoryState } from "./inventory.ts";
+import { type ActionStats, emptyStats, type StatsState } from "./stats.ts";
+
+// === Schema ===
+
+export const SAVE_VERSION = 13;
+
+// localStorage keys for the active save and the last save that failed to load
+// (saves now live in IndexedDB; see saveStore.ts)
+export const SAVE_KEY = "gameState";
+export const QUARANTINE_KEY = "gameState.quarantine";
+
+export interface SaveFile extends EngineState {
+  version: typeof SAVE_VERSION;
+  // Rules the game was started with, so it keeps them across sessions
+  config: GameConfig;
+}
+
+export class SaveFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SaveFileError";
+  }
+}
+
+// === Migrations ===
+
+type RawSave = Record<string, unknown>;
+
+// Before typed tokens, cells and slots held bare numbers: neutral tokens now.
+// Anything else is passed through for validation to reject.
+function numberToToken(value: unknown): unknown {
+  return typeof value === "number" ? { value, element: "neutral" } : value;
+}
+
+function migrateMemento(memento: unknown): unknown {
+  if (!isRecord(memento)) return memento;
+  return { token: numberToToken(memento.tokenValue ?? null) };
+}
+
+function migrateInventory(inventory: unknown): unknown {
+  if (!isRecord(inventory) || !Array.isArray(inventory.slots)) return inventory;
+  return { ...inventory, slots: inventory.slots.map(numberToToken) };
+}
+
+function migrateAction(action: unknown): unknown {
+  if (!isRecord(action)) return action;
+  return {
+    ...action,
+    before: migrateMemento(action.before),
+    after: migrateMemento(action.after),
+    inventoryBefore: migrateInventory(action.inventoryBefore),
+    inventoryAfter: migrateInventory(action.inventoryAfter),
+  };
+}
+
+function mapArray(value: unknown, map: (item: unknown) => unknown): unknown {
+  return Array.isArray(value) ? value.map(map) : value;
+}
+
+// Before cells changed over time, mementos had no time of change
+function stampMemento(memento: unknown, time: number): unknown {
+  return isRecord(memento) ? { ...memento, modifiedAt: time } : memento;
+}
+
+function stampAction(action: unknown, time: number): unknown {
+  if (!isRecord(action)) return action;
+  return {
+    ...action,
+    before: stampMemento(action.before, time),
+    after: stampMemento(action.after, time),
+  };
+}
+
+// Cell ID "i,j", capturing both indices
+export const CELL_ID_PATTERN = /^(-?\d+),(-?\d+)$/;
+
+// Each entry upgrades a save from the keyed version to the next one
+const migrations: Record<number, (save: RawSave) => RawSave> = {
+  // v1: the original unversioned blob written before saves had a version
+  1: (save) => ({ ...save, version: 2 }),
+  // v2: single-token inventory becomes slot 0 of a multi-slot inventory
+  2: (save) => ({
+    ...save,
+    version: 3,
+    inventory: { slots: [save.inventory ?? null], selectedIndex: 0 },
+  }),
+  // v3: undo/redo history starts out empty
+  3: (save) => ({ ...save, version: 4, history: { past: [], future: [] } }),
+  // v4: saves from before world seeds keep the original unseeded world
+  4: (save) => ({ ...save, version: 5, seed: "" }),
+  // v5: saves from before configurable rules used the default rules
+  5: (save) => ({ ...save, version: 6, config: DEFAULT_CONFIG }),
+  // v6: numeric tokens become neutral typed tokens, and the rules gain
+  // element spawn weights
+  6: (save) => {
+    const history = isRecord(save.history) ? save.history : {};
+    const config = isRecord(save.config) ? save.config : {};
+    const spawn = isRecord(config.spawn) ? config.spawn : {};
+    return {
+      ...save,
+      version: 7,
+      inventory: migrateInventory(save.inventory),
+      modifiedCells: mapArray(
+        save.modifiedCells,
+        (entry) =>
+          Array.isArray(entry) ? [entry[0], migrateMemento(entry[1])] : entry,
+      ),
+      history: {
+        ...history,
+        past: mapArray(history.past, migrateAction),
+        future: mapArray(history.future, migrateAction),
+      },
+      config: {
+        ...config,
+        spawn: { ...spawn, elementWeights: DEFAULT_ELEMENT_WEIGHTS },
+      },
+    };
+  },
+  // v7: stats start from zero; an earlier win was a Master Crafter win
+  7: (save) => ({
+    ...save,
+    version: 8,
+    stats: emptyStats(),
+    achievements: save.victoryState === true ? ["master-crafter"] : [],
+  }),
+  // v8: cells start regrowing and decaying from the time of the upgrade,
+  // and the rules gain the default time settings
+  8: (save) => {
+    const now = Date.now();
+    const history = isRecord(save.history) ? save.history : {};
+    const config = isRecord(save.config) ? save.config : {};
+    return {
+      ...save,
+      version: 9,
+      modifiedCells: mapArray(
+        save.modifiedCells,
+        (entry) =>
+          Array.isArray(entry)
+            ? [entry[0], stampMemento(entry[1], now)]
+            : entry,
+      ),
+      history: {
+        ...history,
+        past: mapArray(history.past, (action) => stampAction(action, now)),
+        future: mapArray(history.future, (action) => stampAction(action, now)),
+      },
+      config: { ...config, time: config.time ?? DEFAULT_TIME },
+    };
+  },
+  // v9: visited cells are stored as chunked bitsets, and the fog of war
+  // starts lifted over the cells already visited
+  9: (save) => {
+    const stats = isRecord(save.stats) ? save.stats : {};
+    const visitedIDs = Array.isArray(stats.visitedCells)
+      ? stats.visitedCells
+      : [];
+    const visited = new CellSet();
+    for (const id of visitedIDs) {
+      const match = typeof id === "string" ? CELL_ID_PATTERN.exec(id) : null;
+      if (match) visited.add(Number(match[1]), Number(match[2]));
+    }
+    return {
+      ...save,
+      version: 10,
+      stats: { ...stats, visitedCells: visited.toSerializable() },
+      revealedCells: visited.toSerializable(),
+    };
+  },
+  // v10: saves from before grid projections used the original grid
+  10: (save) => {
+    const config = isRecord(save.config) ? save.config : {};
+    return {
+      ...save,
+      version: 11,
+      config: { ...config, projection: config.projection ?? "equirectangular" },
+    };
+  },
+  // v11: saves from before hex grids used square cells
+  11: (save) => {
+    const config = isRecord(save.config) ? save.config : {};
+    return {
+      ...save,
+      version: 12,
+      config: { ...config, gridType: config.gridType ?? "square" },
+    };
+  },
+  // v12: actions keep the stats on both sides of them; earlier actions get
+  // the current stats on both, so undoing them leaves the stats as they are
+  12: (save) => {
+    const history = isRecord(save.history) ? save.history : {};
+    const stats = isRecord(save.stats) ? save.stats : {};
+    const counts = {
+      tokensPickedUp: stats.tokensPickedUp,
+      tokensPlaced: stats.tokensPlaced,
+      craftsDone: stats.craftsDone,
+      highestCraftedValue: stats.highestCraftedValue,
+      craftedElements: stats.craftedElements,
+    };
+    const addStats = (action: unknown) =>
+      isRecord(action)
+        ? { ...action, statsBefore: counts, statsAfter: counts }
+        : action;
+    return {
+      ...save,
+      version: 13,
+      history: {
+        ...history,
+        past: mapArray(history.past, addStats),
+        future: mapArray(history.future, addStats),
+      },
+    };
+  },
+};
+
+function getVersion(save: RawSave): number {
+  if (save.version === undefined) return 1;
+  if (typeof save.version !== "number" || !Number.isInteger(save.version)) {
+    throw new SaveFileError(`Invalid save version: ${save.version}`);
+  }
+  return save.version;
+}
+
+export function migrateSave(save: RawSave): RawSave {
+  let version = getVersion(save);
+  if (version > SAVE_VERSION) {
+    throw new SaveFileError(
+      `Save version ${version} is newer than supported version ${SAVE_VERSION}`,
+    );
+  }
+
+  while (version < SAVE_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      throw new SaveFileError(`No migration from save version ${version}`);
+    }
+    save = migrate(save);
+    version = getVersion(save);
+  }
+  return save;
+}
+
+// === Validation ===
+
+function isRecord(value: unknown): value is RawSave {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function isNonNegativeInteger(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0;
+}
+
+function isTokenOrEmpty(value: unknown): value is Token | null {
+  return value === null || isToken(value);
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === "string";
+}
+
+// Also checks cells loaded a chunk at a time (see saveStore.ts)
+export function isMemento(value: unknown): value is CellMemento {
+  return isRecord(value) && isTokenOrEmpty(value.token) &&
+    isFiniteNumber(value.modifiedAt);
+}
+
+function isLatLng(value: unknown): value is LatLng {
+  return isRecord(value) && isFiniteNumber(value.lat) &&
+    isFiniteNumber(value.lng) && Math.abs(value.lat) <= 90;
+}
+
+function isInventoryState(value: unknown): value is InventoryState {
+  return isRecord(value) && Array.isArray(value.slots) &&
+    value.slots.every(isTokenOrEmpty) &&
+    isNonNegativeInteger(value.selectedIndex);
+}
+
+const CELL_ACTION_KINDS = ["pickUp", "craft", "place"];
+
+const ACTION_STAT_COUNTERS = [
+  "tokensPickedUp",
+  "tokensPlaced",
+  "craftsDone",
+  "highestCraftedValue",
+];
+
+function isActionStats(value: unknown): value is ActionStats {
+  return isRecord(value) &&
+    ACTION_STAT_COUNTERS.every((key) => {
+      const counter = value[key];
+      return isFiniteNumber(counter) && counter >= 0;
+    }) &&
+    Array.isArray(value.craftedElements) &&
+    value.craftedElements.every(isElement);
+}
+
+function isCellAction(value: unknown): value is CellAction {
+  return isRecord(value) && CELL_ACTION_KINDS.includes(value.kind as string) &&
+    Number.isInteger(value.i) && Number.isInteger(value.j) &&
+    isMemento(value.before) && isMemento(value.after) &&
+    isInventoryState(value.inventoryBefore) &&
+    isInventoryState(value.inventoryAfter) &&
+    isActionStats(value.statsBefore) && isActionStats(value.statsAfter);
+}
+
+function isHistoryState(value: unknown): value is HistoryState {
+  return isRecord(value) && Array.isArray(value.past) &&
+    Array.isArray(value.future) && value.past.every(isCellAction) &&
+    value.future.every(isCellAction);
+}
+
+function isStatsState(value: unknown): value is StatsState {
+  if (!isRecord(value)) return false;
+  const { distanceMeters, visitedCells } = value;
+  return isActionStats(value) && isFiniteNumber(distanceMeters) &&
+    distanceMeters >= 0 && isCellSetState(visitedCells);
+}
+
+function validateCellEntry(
+  entry: unknown,
+  index: number,
+): [string, CellMemento] {
+  if (!Array.isArray(entry) || entry.length !== 2) {
+    throw new SaveFileError(`modifiedCells[${index}] has an invalid cell ID`);
+  }
+  const [cellID, memento]: unknown[] = entry;
+  if (!isString(cellID) || !CELL_ID_PATTERN.test(cellID)) {
+    throw new SaveFileError(`modifiedCells[${index}] has an invalid cell ID`);
+  }
+  if (!isMemento(memento)) {
+    throw new SaveFileError(`modifiedCells[${index}] has an invalid memento`);
+  }
+  return [cellID, memento];
+}
+
+export function validateSaveFile(save: unknown): SaveFile {
+  if (!isRecord(save)) {
+    throw new SaveFileError("Save is not an object");
+  }
+  const {
+    version,
+    seed,
+    playerPosition,
+    inventory,
+    victoryState,
+    modifiedCells,
+    history,
+    stats,
+    achievements,
+    revealedCells,
+  } = save;
+  if (version !== SAVE_VERSION) {
+    throw new SaveFileError(`Unexpected save version: ${version}`);
+  }
+
+  if (!isString(seed)) {
+    throw new SaveFileError("seed is invalid");
+  }
+
+  let config: GameConfig;
+  try {
+    config = validateGameConfig(save.config);
+  } catch (error) {
+    if (!(error instanceof GameConfigError)) throw error;
+    throw new SaveFileError(`config: ${error.message}`);
+  }
+
+  if (!isLatLng(playerPosition)) {
+    throw new SaveFileError("playerPosition is invalid");
+  }
+  if (!isInventoryState(inventory)) {
+    throw new SaveFileError("inventory is invalid");
+  }
+  if (typeof victoryState !== "boolean") {
+    throw new SaveFileError("victoryState is invalid");
+  }
+  if (!Array.isArray(modifiedCells)) {
+    throw new SaveFileError("modifiedCells is not an array");
+  }
+  const cells = modifiedCells.map(validateCellEntry);
+  if (!isHistoryState(history)) {
+    throw new SaveFileError("history is invalid");
+  }
+  if (!isStatsState(stats)) {
+    throw new SaveFileError("stats is invalid");
+  }
+  if (!Array.isArray(achievements) || !achievements.every(isString)) {
+    throw new SaveFileError("achievements is invalid");
+  }
+  if (!isCellSetState(revealedCells)) {
+    throw new SaveFileError("revealedCells is invalid");
+  }
+
+  return {
+    version,
+    seed,
+    config,
+    playerPosition,
+    inventory,
+    victoryState,
+    modifiedCells: cells,
+    history,
+    stats,
+    achievements,
+    revealedCells,
+  };
+}
+
+// === Reading and writing ===
+
+export function toSaveFile(state: EngineState, config: GameConfig): SaveFile {
+  return { version: SAVE_VERSION, ...state, config };
+}
+
+// Parse, migrate and validate a serialized save, throwing SaveFileError
+export function parseSaveFile(json: string): SaveFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new SaveFileError("Save is not valid JSON");
+  }
+  return parseSaveData(data);
+}
+
+// Migrate and validate an already deserialized save, throwing SaveFileError
+export function parseSaveData(data: unknown): SaveFile {
+  if (!isRecord(data)) {
+    throw new SaveFileError("Save is not an object");
+  }
+  return validateSaveFile(migrateSave(data));
+}
+
+// Load the stored save, moving it aside under QUARANTINE_KEY if it is bad
+export function loadStoredSave(storage: Storage): SaveFile | null {
+  const json = storage.getItem(SAVE_KEY);
+  if (json === null) return null;
+
+  try {
+    return parseSaveFile(json);
+  } catch (error) {
+    if (!(error instanceof SaveFileError)) throw error;
+    console.error("Discarding unreadable save:", error.message);
+    storage.setItem(QUARANTINE_KEY, json);
+    storage.removeItem(SAVE_KEY);
+    return null;
+  }
+}
+
+// === Share codes ===
+
+// URL fragment prefix used when a share code is embedded in a link
+export const SHARE_CODE_FRAGMENT = "#save=";
+
+async function pipeBytes(
+  bytes: Uint8Array<ArrayBuffer>,
+  transform: CompressionStream | DecompressionStream,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const stream = new Blob([bytes]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// Compress a save into a compact base64url string for links and bug reports
+export async function encodeShareCode(save: SaveFile): Promise<string> {
+  const json = new TextEncoder().encode(JSON.stringify(save));
+  return toBase64Url(
+    await pipeBytes(json, new CompressionStream("deflate-raw")),
+  );
+}
+
+// Accepts a bare share code or a full link containing one
+export async function decodeShareCode(code: string): Promise<SaveFile> {
+  const fragmentStart = code.indexOf(SHARE_CODE_FRAGMENT);
+  if (fragmentStart !== -1) {
+    code = code.slice(fragmentStart + SHARE_CODE_FRAGMENT.length);
+  }
+  code = code.trim();
+
+  let json: string;
+  try {
+    const bytes = await pipeBytes(
+      fromBase64Url(code),
+      new DecompressionStream("deflate-raw"),
+    );
+    json = new TextDecoder().decode(bytes);
+  } catch {
+    throw new SaveFileError("Share code is not readable");
+  }
+  return parseSaveFile(json);
+}
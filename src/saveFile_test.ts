@@ -0,0 +1,255 @@
+// Tests for loading saves: every migration step from the original
+// unversioned blob, and the rejection of malformed saves.
+//
+//   deno task test
+
+import assert from "node:assert/strict";
+
+import { CellSet } from "./cellSet.ts";
+import type { Token } from "./crafting.ts";
+import { DEFAULT_CONFIG, DEFAULT_TIME } from "./gameConfig.ts";
+import {
+  parseSaveData,
+  parseSaveFile,
+  SAVE_VERSION,
+  SaveFileError,
+} from "./saveFile.ts";
+
+type RawSave = Record<string, unknown>;
+
+const fire4: Token = { value: 4, element: "fire" };
+const water8: Token = { value: 8, element: "water" };
+const MODIFIED_AT = 500;
+// Action counts of the stats in saveAt
+const COUNTS = {
+  tokensPickedUp: 3,
+  tokensPlaced: 1,
+  craftsDone: 2,
+  highestCraftedValue: 8,
+  craftedElements: ["fire"],
+};
+const NO_COUNTS = {
+  tokensPickedUp: 0,
+  tokensPlaced: 0,
+  craftsDone: 0,
+  highestCraftedValue: 0,
+  craftedElements: [],
+};
+
+// A save as `version` wrote it: the player holds a 4 and cell 1,2 holds an
+// 8, both typed from version 7 on; the player has visited cell 1,2 and,
+// from version 10 on, revealed cell 5,5. From version 13 on, the placing
+// action counts one placed token.
+function saveAt(version: number): RawSave {
+  const token = (typed: Token) => version >= 7 ? typed : typed.value;
+  const memento = (typed: Token | null) => {
+    if (version < 7) return { tokenValue: typed?.value ?? null };
+    const memento = { token: typed };
+    return version >= 9 ? { ...memento, modifiedAt: MODIFIED_AT } : memento;
+  };
+
+  const save: RawSave = {
+    playerPosition: { lat: 1, lng: 2 },
+    inventory: version >= 3
+      ? { slots: [token(fire4), null], selectedIndex: 1 }
+      : token(fire4),
+    modifiedCells: [["1,2", memento(water8)]],
+    victoryState: true,
+  };
+  if (version >= 2) save.version = version;
+  if (version >= 4) {
+    const action = {
+      kind: "place",
+      i: 1,
+      j: 2,
+      before: memento(null),
+      after: memento(water8),
+      inventoryBefore: {
+        slots: [token(fire4), token(water8)],
+        selectedIndex: 1,
+      },
+      inventoryAfter: { slots: [token(fire4), null], selectedIndex: 1 },
+      ...(version >= 13
+        ? {
+          statsBefore: { ...COUNTS, tokensPlaced: 0 },
+          statsAfter: COUNTS,
+        }
+        : {}),
+    };
+    save.history = { past: [action], future: [] };
+  }
+  if (version >= 5) save.seed = "abc";
+  if (version >= 6) {
+    const { time, projection, gridType, ...config } = DEFAULT_CONFIG;
+    const { elementWeights, ...spawn } = config.spawn;
+    save.config = {
+      ...config,
+      victoryThreshold: 64,
+      spawn: version >= 7 ? { ...spawn, elementWeights } : spawn,
+      ...(version >= 9 ? { time } : {}),
+      ...(version >= 11 ? { projection } : {}),
+      ...(version >= 12 ? { gridType } : {}),
+    };
+  }
+  if (version >= 8) {
+    const visited = new CellSet();
+    visited.add(1, 2);
+    save.stats = {
+      ...COUNTS,
+      distanceMeters: 40,
+      visitedCells: version >= 10 ? visited.toSerializable() : ["1,2"],
+    };
+    save.achievements = ["first-craft"];
+  }
+  if (version >= 10) {
+    const revealed = new CellSet();
+    revealed.add(5, 5);
+    save.revealedCells = revealed.toSerializable();
+  }
+  return save;
+}
+
+for (let version = 1; version <= SAVE_VERSION; version++) {
+  Deno.test(`a version ${version} save loads as the current version`, () => {
+    const before = Date.now();
+    const save = parseSaveData(saveAt(version));
+    assert.equal(save.version, SAVE_VERSION);
+    assert.deepEqual(save.playerPosition, { lat: 1, lng: 2 });
+
+    // v6: numbers became neutral tokens
+    const held = version >= 7 ? fire4 : { value: 4, element: "neutral" };
+    const placed = version >= 7 ? water8 : { value: 8, element: "neutral" };
+    const [cellID, memento] = save.modifiedCells[0];
+    assert.equal(cellID, "1,2");
+    assert.deepEqual(memento.token, placed);
+
+    // v2: the single held token became slot 0
+    assert.deepEqual(
+      save.inventory,
+      version >= 3
+        ? { slots: [held, null], selectedIndex: 1 }
+        : { slots: [held], selectedIndex: 0 },
+    );
+
+    // v3: history started out empty
+    assert.equal(save.history.past.length, version >= 4 ? 1 : 0);
+    assert.deepEqual(save.history.future, []);
+    if (version >= 4) {
+      const [action] = save.history.past;
+      assert.deepEqual(action.after.token, placed);
+      assert.deepEqual(action.inventoryBefore.slots, [held, placed]);
+      // v12: earlier actions leave the stats as they are when undone
+      const counts = version >= 8 ? COUNTS : NO_COUNTS;
+      assert.deepEqual(action.statsAfter, counts);
+      assert.deepEqual(
+        action.statsBefore,
+        version >= 13 ? { ...counts, tokensPlaced: 0 } : counts,
+      );
+    }
+
+    // v4: the unseeded world
+    assert.equal(save.seed, version >= 5 ? "abc" : "");
+
+    // v5: the default rules; v6 added element weights
+    assert.equal(save.config.victoryThreshold, version >= 6 ? 64 : 32);
+    assert.deepEqual(
+      save.config.spawn.elementWeights,
+      DEFAULT_CONFIG.spawn.elementWeights,
+    );
+
+    // v7: stats from zero, and an earlier win counts as Master Crafter
+    assert.equal(save.stats.craftsDone, version >= 8 ? 2 : 0);
+    assert.deepEqual(
+      save.achievements,
+      version >= 8 ? ["first-craft"] : ["master-crafter"],
+    );
+
+    // v8: times of change stamped with the upgrade, and default time rules
+    if (version >= 9) {
+      assert.equal(memento.modifiedAt, MODIFIED_AT);
+    } else {
+      assert.ok(
+        memento.modifiedAt >= before && memento.modifiedAt <= Date.now(),
+      );
+      assert.ok(
+        save.history.past.every(({ before, after }) =>
+          before.modifiedAt === memento.modifiedAt &&
+          after.modifiedAt === memento.modifiedAt
+        ),
+      );
+    }
+    assert.deepEqual(save.config.time, DEFAULT_TIME);
+
+    // v9: visited cells became a cell set, and they start revealed
+    const visited = new CellSet();
+    visited.load(save.stats.visitedCells);
+    const revealed = new CellSet();
+    revealed.load(save.revealedCells);
+    if (version >= 8) assert.ok(visited.has(1, 2));
+    assert.equal(revealed.has(1, 2), version >= 8 && version < 10);
+    assert.equal(revealed.has(5, 5), version >= 10);
+
+    // v10 and v11: the original square grid
+    assert.equal(save.config.projection, "equirectangular");
+    assert.equal(save.config.gridType, "square");
+  });
+}
+
+// --- Rejection ---
+
+function assertRejected(save: unknown, message: RegExp) {
+  assert.throws(() => parseSaveData(save), (error) => {
+    assert.ok(error instanceof SaveFileError);
+    assert.match(error.message, message);
+    return true;
+  });
+}
+
+// The current save with one field replaced
+function withField(key: string, value: unknown): RawSave {
+  return { ...saveAt(SAVE_VERSION), [key]: value };
+}
+
+Deno.test("saves that are not objects are rejected", () => {
+  assertRejected(null, /not an object/);
+  assertRejected([], /not an object/);
+  assert.throws(() => parseSaveFile("{"), SaveFileError);
+});
+
+Deno.test("saves with unknown versions are rejected", () => {
+  assertRejected(withField("version", SAVE_VERSION + 1), /newer/);
+  assertRejected(withField("version", 2.5), /Invalid save version/);
+  assertRejected(withField("version", "12"), /Invalid save version/);
+  assertRejected(withField("version", 0), /No migration/);
+});
+
+Deno.test("saves with malformed fields are rejected", () => {
+  const current = saveAt(SAVE_VERSION);
+  const cases: [string, unknown, RegExp][] = [
+    ["seed", 7, /seed/],
+    ["config", { ...DEFAULT_CONFIG, tileDegrees: -1 }, /config/],
+    ["playerPosition", { lat: 91, lng: 0 }, /playerPosition/],
+    ["playerPosition", { lat: "1", lng: 0 }, /playerPosition/],
+    ["inventory", { slots: [7], selectedIndex: 0 }, /inventory/],
+    ["inventory", { slots: [], selectedIndex: -1 }, /inventory/],
+    ["victoryState", "no", /victoryState/],
+    ["modifiedCells", {}, /modifiedCells/],
+    ["modifiedCells", [["1;2", { token: null, modifiedAt: 0 }]], /cell ID/],
+    ["modifiedCells", [["1,2", { token: fire4 }]], /memento/],
+    ["modifiedCells", [["1,2", { token: null, modifiedAt: 0 }, 3]], /cell ID/],
+    ["history", { past: [{ kind: "steal" }], future: [] }, /history/],
+    ["history", { past: [] }, /history/],
+    ["stats", { ...current.stats as RawSave, craftsDone: -1 }, /stats/],
+    ["stats", { ...current.stats as RawSave, visitedCells: [1] }, /stats/],
+    ["achievements", [1], /achievements/],
+    ["revealedCells", [["0,0", "too short"]], /revealedCells/],
+  ];
+  for (const [key, value, message] of cases) {
+    assertRejected(withField(key, value), message);
+  }
+});
+
+Deno.test("loaded saves keep only the save's fields", () => {
+  const save = parseSaveData(withField("extra", "dropped"));
+  assert.equal("extra" in save, false);
+});
@@ -0,0 +1,316 @@
+// IndexedDB save storage: one record per chunk of modified cells, written as
+// its cells change and loaded when the game needs it, plus one record holding
+// the rest of the game state.
+
+import { chunkCell, chunkIndex, chunkKey } from "./chunkedGrid.ts";
+import type { Token } from "./crafting.ts";
+import type { GameConfig } from "./gameConfig.ts";
+import {
+  cellKey,
+  type CellMemento,
+  type ChunkStorage,
+  type EngineState,
+  parseCellKey,
+  type StoredChunk,
+} from "./gameEngine.ts";
+import {
+  isMemento,
+  loadStoredSave,
+  parseSaveData,
+  SAVE_KEY,
+  SAVE_VERSION,
+  type SaveFile,
+  SaveFileError,
+} from "./saveFile.ts";
+import { generateSigningKeys } from "./transfer.ts";
+
+const DB_NAME = "worldOfBits";
+const DB_VERSION = 3;
+
+// Object stores: game state records by key, chunks of cell mementos by chunk
+// key, and the time each sent or redeemed token transfer was seen, by nonce
+const GAME_STORE = "game";
+const CHUNK_STORE = "chunks";
+const TRANSFER_STORE = "transfers";
+// Before version 3, one record per cell by cell ID
+const LEGACY_CELL_STORE = "cells";
+
+// Keys in GAME_STORE for the active save and the last one that failed to load
+const CURRENT_KEY = "current";
+const QUARANTINE_KEY = "quarantine";
+// Key in GAME_STORE for this device's transfer signing keys; not part of
+// any one game, so new and imported games keep them
+const SIGNING_KEYS_KEY = "signingKeys";
+// Key in GAME_STORE for the gifts this device sent, kept like the keys
+const SENT_GIFTS_KEY = "sentGifts";
+
+// A sent token and the link that redeems it, so it can be shown again
+export interface SentGift {
+  link: string;
+  token: Token;
+  sentAt: number;
+}
+
+// Everything in a save except its modified cells
+export type SaveMeta = Omit<SaveFile, "modifiedCells">;
+
+export function toSaveMeta(
+  state: Omit<EngineState, "modifiedCells">,
+  config: GameConfig,
+): SaveMeta {
+  return { version: SAVE_VERSION, ...state, config };
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Group saved cells by the chunk they belong to
+function toChunks(cells: [string, CellMemento][]): Map<number, StoredChunk> {
+  const chunks = new Map<number, StoredChunk>();
+  for (const [cellID, memento] of cells) {
+    const { i, j } = parseCellKey(cellID);
+    if (!Number.isInteger(i) || !Number.isInteger(j)) continue;
+    const key = chunkKey(i, j);
+    if (!chunks.has(key)) chunks.set(key, []);
+    chunks.get(key)!.push([chunkIndex(i, j), { ...memento }]);
+  }
+  return chunks;
+}
+
+// Version 3 keeps cells a chunk at a time; move the per-cell records over
+function moveCellsToChunks(db: IDBDatabase, transaction: IDBTransaction) {
+  const cells = transaction.objectStore(LEGACY_CELL_STORE);
+  const chunks = db.createObjectStore(CHUNK_STORE);
+  const cellIDs = cells.getAllKeys();
+  const mementos = cells.getAll();
+  mementos.onsuccess = () => {
+    const entries = cellIDs.result.map((
+      id,
+      index,
+    ): [string, CellMemento] => [String(id), mementos.result[index]]);
+    for (const [key, chunk] of toChunks(entries)) {
+      chunks.put(chunk, key);
+    }
+    db.deleteObjectStore(LEGACY_CELL_STORE);
+  };
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export class SaveStore implements ChunkStorage {
+  private constructor(private db: IDBDatabase) {}
+
+  static async open(): Promise<SaveStore> {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (event.oldVersion < 1) {
+        db.createObjectStore(GAME_STORE);
+      }
+      if (event.oldVersion < 2) {
+        db.createObjectStore(TRANSFER_STORE);
+      }
+      if (event.oldVersion < 3) {
+        if (event.oldVersion < 1) {
+          db.createObjectStore(CHUNK_STORE);
+        } else {
+          moveCellsToChunks(db, request.transaction!);
+        }
+      }
+    };
+    return new SaveStore(await requestResult(request));
+  }
+
+  // Move a save left in localStorage by older versions into IndexedDB, once
+  async importLocalStorage(storage: Storage) {
+    if (storage.getItem(SAVE_KEY) === null) return;
+
+    const existing = await requestResult(
+      this.db.transaction(GAME_STORE).objectStore(GAME_STORE).get(CURRENT_KEY),
+    );
+    const save = loadStoredSave(storage);
+    if (save && existing === undefined) {
+      await this.replace(save);
+    }
+    storage.removeItem(SAVE_KEY);
+  }
+
+  // Load, migrate and validate the stored save. A bad save is moved aside
+  // under QUARANTINE_KEY and null is returned, so the game starts fresh.
+  // The cells stay in storage (see storedChunkKeys and getChunk), except for
+  // a save that needs migrating, which is loaded whole.
+  async load(): Promise<SaveFile | null> {
+    const meta = await requestResult(
+      this.db.transaction(GAME_STORE).objectStore(GAME_STORE).get(CURRENT_KEY),
+    );
+    if (meta === undefined) return null;
+
+    const data = {
+      ...meta,
+      modifiedCells: meta.version === SAVE_VERSION
+        ? []
+        : await this.loadAllCells(),
+    };
+    let save: SaveFile;
+    try {
+      save = parseSaveData(data);
+    } catch (error) {
+      if (!(error instanceof SaveFileError)) throw error;
+      console.error("Discarding unreadable save:", error.message);
+      await this.quarantine({
+        ...meta,
+        modifiedCells: await this.loadAllCells(),
+      });
+      return null;
+    }
+
+    // Store migrated saves in the current format
+    if (meta.version !== SAVE_VERSION) {
+      await this.replace(save);
+    }
+    return save;
+  }
+
+  // Keys of all stored chunks of cells
+  async storedChunkKeys(): Promise<number[]> {
+    const keys = await requestResult(
+      this.db.transaction(CHUNK_STORE).objectStore(CHUNK_STORE).getAllKeys(),
+    );
+    return keys as number[];
+  }
+
+  // Read one chunk of cells, leaving out any that are not valid
+  async getChunk(key: number): Promise<StoredChunk> {
+    const chunk: unknown = await requestResult(
+      this.db.transaction(CHUNK_STORE).objectStore(CHUNK_STORE).get(key),
+    );
+    if (!Array.isArray(chunk)) return [];
+    return chunk.filter((entry) =>
+      Array.isArray(entry) && Number.isInteger(entry[0]) &&
+      isMemento(entry[1])
+    );
+  }
+
+  // Write one chunk of cells after any of them changes
+  async putChunk(key: number, cells: StoredChunk) {
+    const transaction = this.db.transaction(CHUNK_STORE, "readwrite");
+    transaction.objectStore(CHUNK_STORE).put(cells, key);
+    await transactionDone(transaction);
+  }
+
+  // Write everything but the cells, e.g. on autosave
+  async putMeta(meta: SaveMeta) {
+    const transaction = this.db.transaction(GAME_STORE, "readwrite");
+    transaction.objectStore(GAME_STORE).put(meta, CURRENT_KEY);
+    await transactionDone(transaction);
+  }
+
+  // Replace the whole stored save, e.g. for a new or imported game
+  async replace(save: SaveFile) {
+    const { modifiedCells, ...meta } = save;
+    const transaction = this.db.transaction(
+      [GAME_STORE, CHUNK_STORE],
+      "readwrite",
+    );
+    const chunks = transaction.objectStore(CHUNK_STORE);
+    chunks.clear();
+    for (const [key, chunk] of toChunks(modifiedCells)) {
+      chunks.put(chunk, key);
+    }
+    transaction.objectStore(GAME_STORE).put(meta, CURRENT_KEY);
+    await transactionDone(transaction);
+  }
+
+  // This device's transfer signing keys, created on first use
+  async signingKeys(): Promise<CryptoKeyPair> {
+    const stored = await requestResult(
+      this.db.transaction(GAME_STORE).objectStore(GAME_STORE).get(
+        SIGNING_KEYS_KEY,
+      ),
+    );
+    if (stored !== undefined) return stored;
+
+    const keys = await generateSigningKeys();
+    const transaction = this.db.transaction(GAME_STORE, "readwrite");
+    transaction.objectStore(GAME_STORE).put(keys, SIGNING_KEYS_KEY);
+    await transactionDone(transaction);
+    return keys;
+  }
+
+  // Record a transfer as used on this device. False if it already was, in
+  // one transaction so two tabs cannot both redeem it.
+  async claimTransfer(nonce: string): Promise<boolean> {
+    const transaction = this.db.transaction(TRANSFER_STORE, "readwrite");
+    const transfers = transaction.objectStore(TRANSFER_STORE);
+    const seen = await requestResult(transfers.count(nonce));
+    if (seen === 0) {
+      transfers.put(Date.now(), nonce);
+    }
+    await transactionDone(transaction);
+    return seen === 0;
+  }
+
+  // Claim a sent transfer's nonce, so the sender cannot redeem it, and keep
+  // its link, in one transaction
+  async recordSentGift(nonce: string, gift: SentGift) {
+    const transaction = this.db.transaction(
+      [GAME_STORE, TRANSFER_STORE],
+      "readwrite",
+    );
+    const game = transaction.objectStore(GAME_STORE);
+    const gifts: SentGift[] = await requestResult(game.get(SENT_GIFTS_KEY)) ??
+      [];
+    game.put([...gifts, gift], SENT_GIFTS_KEY);
+    transaction.objectStore(TRANSFER_STORE).put(gift.sentAt, nonce);
+    await transactionDone(transaction);
+  }
+
+  // Gifts this device sent, oldest first
+  async sentGifts(): Promise<SentGift[]> {
+    return await requestResult(
+      this.db.transaction(GAME_STORE).objectStore(GAME_STORE).get(
+        SENT_GIFTS_KEY,
+      ),
+    ) ?? [];
+  }
+
+  // Every stored cell, e.g. to migrate an old save
+  private async loadAllCells(): Promise<[string, CellMemento][]> {
+    const transaction = this.db.transaction(CHUNK_STORE);
+    const chunks = transaction.objectStore(CHUNK_STORE);
+    const [keys, values] = await Promise.all([
+      requestResult(chunks.getAllKeys()),
+      requestResult(chunks.getAll()),
+    ]);
+    return keys.flatMap((key, index) =>
+      (values[index] as StoredChunk).map((
+        [cellIndex, memento],
+      ): [string, CellMemento] => {
+        const { i, j } = chunkCell(key as number, cellIndex);
+        return [cellKey(i, j), memento];
+      })
+    );
+  }
+
+  private async quarantine(data: unknown) {
+    const transaction = this.db.transaction(
+      [GAME_STORE, CHUNK_STORE],
+      "readwrite",
+    );
+    const game = transaction.objectStore(GAME_STORE);
+    game.put(data, QUARANTINE_KEY);
+    game.delete(CURRENT_KEY);
+    transaction.objectStore(CHUNK_STORE).clear();
+    await transactionDone(transaction);
+  }
+}
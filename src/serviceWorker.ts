@@ -0,0 +1,202 @@
+// Service worker: caches the app shell so the game starts without a network,
+// and keeps a bounded least-recently-used cache of the map tiles the player
+// has seen. Built to sw.js at the site root by vite.config.js.
+
+// Minimal service worker types; the project compiles against the DOM lib
+interface ExtendableEvent extends Event {
+  waitUntil(promise: Promise<unknown>): void;
+}
+
+interface FetchEvent extends ExtendableEvent {
+  request: Request;
+  respondWith(response: Promise<Response>): void;
+}
+
+interface ServiceWorkerScope {
+  location: Location;
+  clients: { claim(): Promise<void> };
+  skipWaiting(): Promise<void>;
+  addEventListener(
+    type: "install" | "activate",
+    listener: (event: ExtendableEvent) => void,
+  ): void;
+  addEventListener(type: "fetch", listener: (event: FetchEvent) => void): void;
+}
+
+declare const self: ServiceWorkerScope;
+
+// Bump SHELL_CACHE when the caching strategy changes
+const SHELL_CACHE = "shell-v2";
+// v1 held opaque responses, which may be error tiles
+const TILE_CACHE = "tiles-v2";
+const MAX_TILES = 1500;
+
+// Shell files the page adds at runtime rather than linking from index.html
+const SHELL_EXTRAS = ["manifest.webmanifest", "icon.svg"];
+
+// === App shell ===
+
+const INDEX_URL = new URL("./", self.location.href).href;
+// Vite gives everything under here a content hash in its name
+const HASHED_ASSETS_URL = new URL("assets/", INDEX_URL).href;
+
+// The page, every script and style it references, and SHELL_EXTRAS
+function shellURLs(html: string): Set<string> {
+  const assets = Array.from(
+    html.matchAll(/(?:src|href)="([^"]+\.(?:js|css))"/g),
+    ([, path]) => path,
+  );
+  return new Set([
+    INDEX_URL,
+    ...[...assets, ...SHELL_EXTRAS].map((path) =>
+      new URL(path, INDEX_URL).href
+    ),
+  ]);
+}
+
+async function precacheShell() {
+  const cache = await caches.open(SHELL_CACHE);
+  const response = await fetch(INDEX_URL, { cache: "reload" });
+  if (!response.ok) return;
+
+  const html = await response.clone().text();
+  await cache.put(INDEX_URL, response);
+  await cache.addAll([...shellURLs(html)].filter((url) => url !== INDEX_URL));
+}
+
+// Drop files the cached page no longer references, e.g. bundles from
+// earlier deploys
+async function pruneShell() {
+  const cache = await caches.open(SHELL_CACHE);
+  const index = await cache.match(INDEX_URL);
+  if (!index) return;
+
+  const current = shellURLs(await index.text());
+  for (const request of await cache.keys()) {
+    if (!current.has(request.url)) await cache.delete(request);
+  }
+}
+
+// Pages: network first so deploys show up, falling back to the cached shell
+async function handleNavigation(request: Request): Promise<Response> {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(SHELL_CACHE);
+      await cache.put(INDEX_URL, response.clone());
+      await pruneShell();
+    }
+    return response;
+  } catch {
+    const cached = await caches.match(INDEX_URL);
+    return cached ?? Response.error();
+  }
+}
+
+// Hashed assets: a cached copy is always current. Other files (the manifest,
+// icons) keep their names across deploys, so they come from the network
+// first, with the cache for offline.
+async function handleAsset(request: Request): Promise<Response> {
+  const hashed = request.url.startsWith(HASHED_ASSETS_URL);
+  if (hashed) {
+    const cached = await caches.match(request);
+    if (cached) return cached;
+  }
+
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) await cache.put(request, response.clone());
+    return response;
+  } catch (error) {
+    const cached = hashed ? undefined : await cache.match(request);
+    if (!cached) throw error;
+    return cached;
+  }
+}
+
+// === Tile cache ===
+
+// Tile URLs from least to most recently used. Kept in memory and rebuilt
+// from the cache's insertion order whenever the worker restarts.
+let tileOrder: Map<string, true> | null = null;
+
+async function getTileOrder(cache: Cache): Promise<Map<string, true>> {
+  if (!tileOrder) {
+    const keys = await cache.keys();
+    tileOrder = new Map(keys.map((request) => [request.url, true]));
+  }
+  return tileOrder;
+}
+
+async function touchTile(cache: Cache, url: string) {
+  const order = await getTileOrder(cache);
+  order.delete(url);
+  order.set(url, true);
+}
+
+async function evictTiles(cache: Cache) {
+  const order = await getTileOrder(cache);
+  while (order.size > MAX_TILES) {
+    const oldest = order.keys().next().value!;
+    order.delete(oldest);
+    await cache.delete(oldest);
+  }
+}
+
+// Tiles: network first so they stay current, falling back to the cache
+// offline. Fetched with CORS (OpenStreetMap and the stub server allow it) so
+// that error responses can be told apart and are never cached.
+async function handleTile(request: Request): Promise<Response> {
+  const cache = await caches.open(TILE_CACHE);
+  try {
+    const response = await fetch(request.url, { mode: "cors" });
+    if (response.ok) {
+      await cache.put(request.url, response.clone());
+      await touchTile(cache, request.url);
+      await evictTiles(cache);
+    }
+    return response;
+  } catch {
+    const cached = await cache.match(request.url);
+    if (!cached) return Response.error();
+    await touchTile(cache, request.url);
+    return cached;
+  }
+}
+
+// === Events ===
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(precacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((names) =>
+        Promise.all(
+          names
+            .filter((name) => name !== SHELL_CACHE && name !== TILE_CACHE)
+            .map((name) => caches.delete(name)),
+        )
+      )
+      .then(pruneShell)
+      .then(() => self.clients.claim()),
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const request = event.request;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+  if (request.mode === "navigate") {
+    event.respondWith(handleNavigation(request));
+  } else if (url.origin === self.location.origin) {
+    event.respondWith(handleAsset(request));
+  } else if (request.destination === "image") {
+    // Cross-origin images are map tiles
+    event.respondWith(handleTile(request));
+  }
+});
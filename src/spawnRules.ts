@@ -0,0 +1,196 @@
+// Spawn rules decide what an unmodified cell contains. Every rule draws its
+// randomness from the supplied luck function, so the world is deterministic.
+
+import type { Element, Token } from "./crafting.ts";
+import type { Cell } from "./gameEngine.ts";
+
+export type LuckFunction = (situation: string) => number;
+
+export interface SpawnRule {
+  spawn(i: number, j: number, luck: LuckFunction): Cell;
+  // The token the cell would hold if it had one, e.g. for a regrown cell
+  spawnToken(i: number, j: number, luck: LuckFunction): Token;
+}
+
+const EMPTY_CELL: Cell = { token: null };
+
+// Base rules spawn neutral tokens; ElementSpawnRule charges them
+function neutralToken(value: number): Token {
+  return { value, element: "neutral" };
+}
+
+// === Base rules ===
+
+export interface WeightedValue {
+  value: number;
+  weight: number;
+}
+
+// Token values are drawn from a table, e.g. common 2s and rare 8s
+export class WeightedValueSpawnRule implements SpawnRule {
+  private totalWeight: number;
+
+  constructor(
+    private probability: number,
+    private table: WeightedValue[],
+  ) {
+    this.totalWeight = table.reduce((sum, entry) => sum + entry.weight, 0);
+  }
+
+  spawn(i: number, j: number, luck: LuckFunction): Cell {
+    if (luck([i, j].toString()) >= this.probability) {
+      return { ...EMPTY_CELL };
+    }
+    return { token: this.spawnToken(i, j, luck) };
+  }
+
+  spawnToken(i: number, j: number, luck: LuckFunction): Token {
+    let roll = luck([i, j, "value"].toString()) * this.totalWeight;
+    for (const entry of this.table) {
+      roll -= entry.weight;
+      if (roll < 0) {
+        return neutralToken(entry.value);
+      }
+    }
+    return neutralToken(this.table.at(-1)!.value);
+  }
+}
+
+// === Modifier rules ===
+
+// Farther from Null Island, tokens get rarer but are worth more: each ring of
+// `ringCells` cells doubles token values and thins out spawns
+export class DistanceScaledSpawnRule implements SpawnRule {
+  constructor(
+    private base: SpawnRule,
+    private ringCells: number,
+    private maxDoublings: number,
+    private rarityPerRing: number,
+  ) {}
+
+  spawn(i: number, j: number, luck: LuckFunction): Cell {
+    const cell = this.base.spawn(i, j, luck);
+    if (!cell.token) return cell;
+
+    const keepChance = 1 / (1 + this.ring(i, j) * this.rarityPerRing);
+    if (luck([i, j, "distance"].toString()) >= keepChance) {
+      return { ...EMPTY_CELL };
+    }
+    return { token: this.scale(i, j, cell.token) };
+  }
+
+  spawnToken(i: number, j: number, luck: LuckFunction): Token {
+    return this.scale(i, j, this.base.spawnToken(i, j, luck));
+  }
+
+  private ring(i: number, j: number): number {
+    return Math.floor(Math.hypot(i, j) / this.ringCells);
+  }
+
+  private scale(i: number, j: number, token: Token): Token {
+    const doublings = Math.min(this.ring(i, j), this.maxDoublings);
+    return { ...token, value: token.value * 2 ** doublings };
+  }
+}
+
+// Clustered regions where extra tokens spawn, shaped by seeded value noise
+export class HotspotSpawnRule implements SpawnRule {
+  constructor(
+    private base: SpawnRule,
+    private regionCells: number,
+    private threshold: number,
+    private extraRolls: number,
+  ) {}
+
+  spawn(i: number, j: number, luck: LuckFunction): Cell {
+    let cell = this.base.spawn(i, j, luck);
+    if (cell.token || !this.isHotspot(i, j, luck)) return cell;
+
+    // Empty cells inside a hotspot get extra chances to hold a token
+    for (let roll = 1; roll <= this.extraRolls && !cell.token; roll++) {
+      cell = this.base.spawn(
+        i,
+        j,
+        (situation) => luck(`hotspot${roll}:${situation}`),
+      );
+    }
+    return cell;
+  }
+
+  spawnToken(i: number, j: number, luck: LuckFunction): Token {
+    return this.base.spawnToken(i, j, luck);
+  }
+
+  isHotspot(i: number, j: number, luck: LuckFunction): boolean {
+    return valueNoise(i / this.regionCells, j / this.regionCells, luck) >
+      this.threshold;
+  }
+}
+
+export interface WeightedElement {
+  element: Element;
+  weight: number;
+}
+
+// Each token takes an element drawn from a table, e.g. mostly neutral
+export class ElementSpawnRule implements SpawnRule {
+  private totalWeight: number;
+
+  constructor(private base: SpawnRule, private table: WeightedElement[]) {
+    this.totalWeight = table.reduce((sum, entry) => sum + entry.weight, 0);
+  }
+
+  spawn(i: number, j: number, luck: LuckFunction): Cell {
+    const cell = this.base.spawn(i, j, luck);
+    if (!cell.token) return cell;
+    return { token: this.charge(i, j, cell.token, luck) };
+  }
+
+  spawnToken(i: number, j: number, luck: LuckFunction): Token {
+    return this.charge(i, j, this.base.spawnToken(i, j, luck), luck);
+  }
+
+  private charge(i: number, j: number, token: Token, luck: LuckFunction) {
+    let roll = luck([i, j, "element"].toString()) * this.totalWeight;
+    let element = this.table.at(-1)!.element;
+    for (const entry of this.table) {
+      roll -= entry.weight;
+      if (roll < 0) {
+        element = entry.element;
+        break;
+      }
+    }
+    return { ...token, element };
+  }
+}
+
+// === Noise ===
+
+function smoothstep(t: number): number {
+  return t * t * (3 - 2 * t);
+}
+
+// Smooth 2D noise in [0, 1] from luck values on an integer lattice
+export function valueNoise(x: number, y: number, luck: LuckFunction): number {
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const tx = smoothstep(x - x0);
+  const ty = smoothstep(y - y0);
+
+  const corner = (cx: number, cy: number) => luck(["noise", cx, cy].toString());
+  const top = corner(x0, y0) * (1 - tx) + corner(x0 + 1, y0) * tx;
+  const bottom = corner(x0, y0 + 1) * (1 - tx) + corner(x0 + 1, y0 + 1) * tx;
+  return top * (1 - ty) + bottom * ty;
+}
+
+// === Seeds ===
+
+// Mix a world seed into every situation; the empty seed is the original world
+export function seededLuck(luck: LuckFunction, seed: string): LuckFunction {
+  if (seed === "") return luck;
+  return (situation) => luck(`${seed}:${situation}`);
+}
+
+export function randomSeed(): string {
+  return crypto.randomUUID().slice(0, 8);
+}
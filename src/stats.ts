@@ -0,0 +1,130 @@
+// Running statistics of one game. The counts of cell actions are kept with
+// each action in the history, so undoing an action takes its stats back;
+// distance and visited cells stay, as moves cannot be undone.
+
+import { CellSet, type CellSetState } from "./cellSet.ts";
+import type { Element } from "./crafting.ts";
+
+// Longer single moves are jumps (first GPS fix, loading a game, replay
+// seeking) rather than walking, and do not count toward distance
+const MAX_STEP_METERS = 1000;
+
+export interface StatsState {
+  tokensPickedUp: number;
+  tokensPlaced: number;
+  craftsDone: number;
+  highestCraftedValue: number;
+  distanceMeters: number;
+  visitedCells: CellSetState;
+  craftedElements: Element[];
+}
+
+// The stats cell actions change, as recorded before and after each one
+export type ActionStats = Pick<
+  StatsState,
+  | "tokensPickedUp"
+  | "tokensPlaced"
+  | "craftsDone"
+  | "highestCraftedValue"
+  | "craftedElements"
+>;
+
+export class StatsTracker {
+  tokensPickedUp = 0;
+  tokensPlaced = 0;
+  craftsDone = 0;
+  highestCraftedValue = 0;
+  distanceMeters = 0;
+  private visited = new CellSet();
+  private elements = new Set<Element>();
+
+  get cellsVisited(): number {
+    return this.visited.size;
+  }
+
+  hasVisited(i: number, j: number): boolean {
+    return this.visited.has(i, j);
+  }
+
+  hasCrafted(element: Element): boolean {
+    return this.elements.has(element);
+  }
+
+  recordMove(stepMeters: number, i: number, j: number) {
+    if (stepMeters <= MAX_STEP_METERS) {
+      this.distanceMeters += stepMeters;
+    }
+    this.visited.add(i, j);
+  }
+
+  recordPickUp() {
+    this.tokensPickedUp++;
+  }
+
+  recordPlace() {
+    this.tokensPlaced++;
+  }
+
+  recordCraft(value: number, element: Element) {
+    this.craftsDone++;
+    this.highestCraftedValue = Math.max(this.highestCraftedValue, value);
+    this.elements.add(element);
+  }
+
+  clear() {
+    this.load(emptyStats());
+  }
+
+  toSerializable(): StatsState {
+    return {
+      tokensPickedUp: this.tokensPickedUp,
+      tokensPlaced: this.tokensPlaced,
+      craftsDone: this.craftsDone,
+      highestCraftedValue: this.highestCraftedValue,
+      distanceMeters: this.distanceMeters,
+      visitedCells: this.visited.toSerializable(),
+      craftedElements: Array.from(this.elements),
+    };
+  }
+
+  actionStats(): ActionStats {
+    return {
+      tokensPickedUp: this.tokensPickedUp,
+      tokensPlaced: this.tokensPlaced,
+      craftsDone: this.craftsDone,
+      highestCraftedValue: this.highestCraftedValue,
+      craftedElements: Array.from(this.elements),
+    };
+  }
+
+  // Put the action counts back, e.g. on undo
+  loadActionStats(stats: ActionStats) {
+    this.tokensPickedUp = stats.tokensPickedUp;
+    this.tokensPlaced = stats.tokensPlaced;
+    this.craftsDone = stats.craftsDone;
+    this.highestCraftedValue = stats.highestCraftedValue;
+    this.elements = new Set(stats.craftedElements);
+  }
+
+  load(state: StatsState) {
+    this.tokensPickedUp = state.tokensPickedUp;
+    this.tokensPlaced = state.tokensPlaced;
+    this.craftsDone = state.craftsDone;
+    this.highestCraftedValue = state.highestCraftedValue;
+    this.distanceMeters = state.distanceMeters;
+    this.visited.load(state.visitedCells);
+    this.elements = new Set(state.craftedElements);
+  }
+}
+
+export function emptyStats(): StatsState {
+  return {
+    tokensPickedUp: 0,
+    tokensPlaced: 0,
+    craftsDone: 0,
+    highestCraftedValue: 0,
+    distanceMeters: 0,
+    visitedCells: [],
+    craftedElements: [],
+  };
+}
@@ -0,0 +1,274 @@
+// Shared worlds: publishes local cell changes and the player's position to a
+// sync server and applies what other players do. The transport is a
+// pluggable backend; WebSocketSyncBackend talks to scripts/syncServer.ts.
+
+import luck from "./_luck.ts";
+import type { GameConfig } from "./gameConfig.ts";
+import type { CellMemento, LatLng } from "./gameEngine.ts";
+import { CELL_ID_PATTERN, isMemento } from "./saveFile.ts";
+import {
+  type CellRecord,
+  type ClientMessage,
+  type PlayerRecord,
+  type ServerMessage,
+  SYNC_PROTOCOL_VERSION,
+} from "./syncProtocol.ts";
+
+export type SyncStatus = "connecting" | "connected" | "disconnected";
+
+// === Backends ===
+
+// Transport for protocol messages; reconnecting is up to the backend
+export interface SyncBackend {
+  connect(): void;
+  disconnect(): void;
+  send(message: ClientMessage): void;
+  onMessage(callback: (message: ServerMessage) => void): void;
+  onStatusChange(callback: (status: SyncStatus) => void): void;
+}
+
+export class WebSocketSyncBackend implements SyncBackend {
+  private socket: WebSocket | null = null;
+  private messageCallback: ((message: ServerMessage) => void) | null = null;
+  private statusCallback: ((status: SyncStatus) => void) | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private wanted = false;
+
+  constructor(private url: string, private retryMs: number) {}
+
+  connect() {
+    this.wanted = true;
+    if (this.socket) return;
+
+    this.statusCallback?.("connecting");
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+    socket.addEventListener("open", () => this.statusCallback?.("connected"));
+    socket.addEventListener("message", (event) => {
+      try {
+        this.messageCallback?.(JSON.parse(event.data) as ServerMessage);
+      } catch (error) {
+        console.error("Bad sync message:", error);
+      }
+    });
+    socket.addEventListener("close", () => {
+      this.socket = null;
+      this.statusCallback?.("disconnected");
+      // Keep trying while the player still wants to be connected
+      if (this.wanted && this.retryTimer === null) {
+        this.retryTimer = setTimeout(() => {
+          this.retryTimer = null;
+          if (this.wanted) this.connect();
+        }, this.retryMs);
+      }
+    });
+  }
+
+  disconnect() {
+    this.wanted = false;
+    if (this.retryTimer !== null) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    this.socket?.close();
+  }
+
+  send(message: ClientMessage) {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  onMessage(callback: (message: ServerMessage) => void) {
+    this.messageCallback = callback;
+  }
+
+  onStatusChange(callback: (status: SyncStatus) => void) {
+    this.statusCallback = callback;
+  }
+}
+
+// === Client ===
+
+// Players only share a world with the same seed and rules
+export function worldKey(seed: string, config: GameConfig): string {
+  const rules = Math.floor(luck(JSON.stringify(config)) * 2 ** 30);
+  return `${seed}:${rules.toString(36)}`;
+}
+
+// What the game supplies to and receives from the sync client
+export interface SyncHandlers {
+  // Changed cells this player made, to publish when (re)connecting; may
+  // need loading from storage first
+  localCells(): Promise<[string, CellMemento][]>;
+  remoteCell(cellID: string, memento: CellMemento): void;
+  rejected(cellID: string, memento: CellMemento): void;
+  player(player: PlayerRecord): void;
+  playerLeft(playerID: string): void;
+  status(status: SyncStatus): void;
+}
+
+// The server only checks the shape of the cells players send, so cells from
+// it are checked like saved ones before they reach the game
+function isValidCell(cell: unknown): cell is CellRecord {
+  const record = cell as Partial<Record<keyof CellRecord, unknown>> | null;
+  return typeof record?.cellID === "string" &&
+    CELL_ID_PATTERN.test(record.cellID) &&
+    Number.isInteger(record.version) &&
+    isMemento(record.memento);
+}
+
+function warnInvalidCell(cell: unknown) {
+  console.warn("Dropped an invalid cell from the sync server:", cell);
+}
+
+function sameMemento(a: CellMemento, b: CellMemento): boolean {
+  return a.modifiedAt === b.modifiedAt &&
+    JSON.stringify(a.token) === JSON.stringify(b.token);
+}
+
+export class SyncClient {
+  // Server version of each changed cell, as last seen by this client
+  private versions = new Map<string, number>();
+  // Local changes the server has not yet accepted or refused, e.g. ones made
+  // while disconnected
+  private pending = new Map<string, CellMemento>();
+  private currentStatus: SyncStatus = "disconnected";
+  private lastPosition: LatLng | null = null;
+
+  constructor(
+    private backend: SyncBackend,
+    private world: string,
+    readonly playerID: string,
+    private name: string,
+    private handlers: SyncHandlers,
+  ) {
+    backend.onMessage(this.handleMessage);
+    backend.onStatusChange(this.handleStatus);
+  }
+
+  get status(): SyncStatus {
+    return this.currentStatus;
+  }
+
+  get connected(): boolean {
+    return this.currentStatus === "connected";
+  }
+
+  start() {
+    this.backend.connect();
+  }
+
+  stop() {
+    this.backend.disconnect();
+  }
+
+  publishPosition(position: LatLng) {
+    this.lastPosition = position;
+    this.backend.send({ type: "position", position });
+  }
+
+  // Send a local change, assuming it will be accepted; a rejection resets
+  // the version and rolls the change back
+  publishCell(cellID: string, memento: CellMemento) {
+    const baseVersion = this.versions.get(cellID) ?? 0;
+    this.versions.set(cellID, baseVersion + 1);
+    this.pending.set(cellID, memento);
+    this.backend.send({ type: "cell", cellID, baseVersion, memento });
+  }
+
+  private handleStatus = (status: SyncStatus) => {
+    this.currentStatus = status;
+    if (status === "connected") {
+      this.backend.send({
+        type: "hello",
+        protocol: SYNC_PROTOCOL_VERSION,
+        world: this.world,
+        playerID: this.playerID,
+        name: this.name,
+      });
+      if (this.lastPosition) this.publishPosition(this.lastPosition);
+    }
+    this.handlers.status(status);
+  };
+
+  private handleMessage = (message: ServerMessage) => {
+    switch (message.type) {
+      case "welcome":
+        this.welcome(message.cells, message.players);
+        break;
+      case "cell":
+        if (!isValidCell(message.cell)) {
+          warnInvalidCell(message.cell);
+          break;
+        }
+        this.versions.set(message.cell.cellID, message.cell.version);
+        // Our own accepted changes are already applied
+        if (message.playerID === this.playerID) {
+          this.pending.delete(message.cell.cellID);
+        } else {
+          this.handlers.remoteCell(message.cell.cellID, message.cell.memento);
+        }
+        break;
+      case "rejected":
+        if (!isValidCell(message.cell)) {
+          warnInvalidCell(message.cell);
+          break;
+        }
+        this.versions.set(message.cell.cellID, message.cell.version);
+        this.pending.delete(message.cell.cellID);
+        this.handlers.rejected(message.cell.cellID, message.cell.memento);
+        break;
+      case "player":
+        if (message.player.playerID !== this.playerID) {
+          this.handlers.player(message.player);
+        }
+        break;
+      case "left":
+        this.handlers.playerLeft(message.playerID);
+        break;
+      case "error":
+        console.error("Sync server error:", message.message);
+        break;
+    }
+  };
+
+  // The server's cells win, and local changes it does not have are refused
+  // like any other; cells only changed locally (e.g. while offline) are
+  // published on top of them
+  private welcome(cells: CellRecord[], players: PlayerRecord[]) {
+    const pending = this.pending;
+    this.versions.clear();
+    this.pending = new Map();
+    for (const cell of Array.isArray(cells) ? cells : []) {
+      if (!isValidCell(cell)) {
+        warnInvalidCell(cell);
+        continue;
+      }
+      this.versions.set(cell.cellID, cell.version);
+      const local = pending.get(cell.cellID);
+      if (local && !sameMemento(local, cell.memento)) {
+        this.handlers.rejected(cell.cellID, cell.memento);
+      } else {
+        this.handlers.remoteCell(cell.cellID, cell.memento);
+      }
+    }
+    for (const player of players) {
+      if (player.playerID !== this.playerID) {
+        this.handlers.player(player);
+      }
+    }
+    this.publishLocalCells();
+  }
+
+  private async publishLocalCells() {
+    const cells = await this.handlers.localCells();
+    // The connection may have dropped while the cells loaded
+    if (!this.connected) return;
+    for (const [cellID, memento] of cells) {
+      if (!this.versions.has(cellID)) {
+        this.publishCell(cellID, memento);
+      }
+    }
+  }
+}
@@ -0,0 +1,52 @@
+// Messages exchanged between game clients and a sync server. Shared by the
+// client (sync.ts) and the reference server (scripts/syncServer.ts).
+//
+// Conflicts are settled by the server: every cell has a version, and a
+// change only applies if it was made against the server's current version.
+// Otherwise the sender gets the server's cell back and rolls its change back.
+
+import type { CellMemento, LatLng } from "./gameEngine.ts";
+
+export const SYNC_PROTOCOL_VERSION = 2;
+
+// A cell as the server knows it
+export interface CellRecord {
+  cellID: string;
+  version: number;
+  memento: CellMemento;
+}
+
+export interface PlayerRecord {
+  playerID: string;
+  name: string;
+  position: LatLng | null;
+}
+
+export type ClientMessage =
+  // First message: join a world (players only see others in the same world)
+  | {
+    type: "hello";
+    protocol: number;
+    world: string;
+    playerID: string;
+    name: string;
+  }
+  | { type: "position"; position: LatLng }
+  // A local change made on top of `baseVersion` of the cell
+  | {
+    type: "cell";
+    cellID: string;
+    baseVersion: number;
+    memento: CellMemento;
+  };
+
+export type ServerMessage =
+  // Reply to hello: every changed cell and every other player in the world
+  | { type: "welcome"; cells: CellRecord[]; players: PlayerRecord[] }
+  // An accepted change, sent to every player including its author
+  | { type: "cell"; playerID: string; cell: CellRecord }
+  // A refused change, sent to its author with the server's current cell
+  | { type: "rejected"; cell: CellRecord }
+  | { type: "player"; player: PlayerRecord }
+  | { type: "left"; playerID: string }
+  | { type: "error"; message: string };
@@ -0,0 +1,136 @@
+// Tests for the sync client's handling of cells from the server.
+//
+//   deno task test
+
+import assert from "node:assert/strict";
+
+import type { CellMemento } from "./gameEngine.ts";
+import { type SyncBackend, SyncClient, type SyncStatus } from "./sync.ts";
+import type { ClientMessage, ServerMessage } from "./syncProtocol.ts";
+
+// Backend that hands server messages straight to the client
+class FakeBackend implements SyncBackend {
+  sent: ClientMessage[] = [];
+  private messageCallback: ((message: ServerMessage) => void) | null = null;
+
+  connect() {}
+  disconnect() {}
+
+  send(message: ClientMessage) {
+    this.sent.push(message);
+  }
+
+  onMessage(callback: (message: ServerMessage) => void) {
+    this.messageCallback = callback;
+  }
+
+  onStatusChange(_callback: (status: SyncStatus) => void) {}
+
+  // Server data is untrusted, so tests may send anything
+  receive(message: unknown) {
+    this.messageCallback!(message as ServerMessage);
+  }
+}
+
+const VALID_MEMENTO = {
+  token: { value: 4, element: "fire" },
+  modifiedAt: 1000,
+} as CellMemento;
+
+const INVALID_CELLS: unknown[] = [
+  { cellID: "not a cell", version: 1, memento: VALID_MEMENTO },
+  { cellID: "1,2", version: "1", memento: VALID_MEMENTO },
+  { cellID: "1,2", version: 1, memento: { token: null } },
+  {
+    cellID: "1,2",
+    version: 1,
+    memento: { token: { value: 4, element: "plasma" }, modifiedAt: 0 },
+  },
+  {
+    cellID: "1,2",
+    version: 1,
+    memento: { token: null, modifiedAt: "yesterday" },
+  },
+  null,
+];
+
+function makeClient() {
+  const backend = new FakeBackend();
+  const remote: [string, CellMemento][] = [];
+  const rejected: [string, CellMemento][] = [];
+  const client = new SyncClient(backend, "world", "me", "Me", {
+    localCells: () => Promise.resolve([]),
+    remoteCell: (cellID, memento) => remote.push([cellID, memento]),
+    rejected: (cellID, memento) => rejected.push([cellID, memento]),
+    player() {},
+    playerLeft() {},
+    status() {},
+  });
+  return { backend, client, remote, rejected };
+}
+
+// Keep the expected warnings out of the test output
+function quietly(run: () => void) {
+  const warn = console.warn;
+  console.warn = () => {};
+  try {
+    run();
+  } finally {
+    console.warn = warn;
+  }
+}
+
+Deno.test("SyncClient applies valid cells from other players", () => {
+  const { backend, remote } = makeClient();
+  const cell = { cellID: "-3,7", version: 2, memento: VALID_MEMENTO };
+  backend.receive({ type: "cell", playerID: "them", cell });
+  backend.receive({ type: "rejected", cell });
+  assert.deepEqual(remote, [["-3,7", VALID_MEMENTO]]);
+});
+
+Deno.test("SyncClient drops invalid cells", () => {
+  const { backend, remote, rejected } = makeClient();
+  quietly(() => {
+    for (const cell of INVALID_CELLS) {
+      backend.receive({ type: "cell", playerID: "them", cell });
+      backend.receive({ type: "rejected", cell });
+    }
+    backend.receive({ type: "welcome", cells: INVALID_CELLS, players: [] });
+    backend.receive({ type: "welcome", cells: "none", players: [] });
+  });
+  assert.deepEqual(remote, []);
+  assert.deepEqual(rejected, []);
+});
+
+Deno.test("SyncClient keeps the valid cells of a welcome", () => {
+  const { backend, remote } = makeClient();
+  const cell = { cellID: "0,0", version: 1, memento: VALID_MEMENTO };
+  quietly(() =>
+    backend.receive({
+      type: "welcome",
+      cells: [...INVALID_CELLS, cell],
+      players: [],
+    })
+  );
+  assert.deepEqual(remote, [["0,0", VALID_MEMENTO]]);
+});
+
+Deno.test("SyncClient refuses local changes a welcome overwrites", () => {
+  const { client, backend, remote, rejected } = makeClient();
+  const local = { token: null, modifiedAt: 2000 } as CellMemento;
+  // Made while offline, so the server never saw them
+  client.publishCell("1,2", local);
+  client.publishCell("3,4", local);
+  client.publishCell("5,6", local);
+  backend.receive({
+    type: "welcome",
+    cells: [
+      { cellID: "1,2", version: 3, memento: VALID_MEMENTO },
+      { cellID: "3,4", version: 1, memento: local },
+      { cellID: "0,0", version: 1, memento: VALID_MEMENTO },
+    ],
+    players: [],
+  });
+  assert.deepEqual(rejected, [["1,2", VALID_MEMENTO]]);
+  assert.deepEqual(remote, [["3,4", local], ["0,0", VALID_MEMENTO]]);
+});
@@ -0,0 +1,10 @@
+// Page side of offline map tiles: registers the service worker, which caches
+// the tiles the map loads (see serviceWorker.ts).
+
+export function registerServiceWorker(scriptURL: string) {
+  if (!("serviceWorker" in navigator)) return;
+  navigator.serviceWorker.register(scriptURL).catch((error) => {
+    // Expected under the dev server, which does not build sw.js
+    console.info("Service worker not registered:", error);
+  });
+}
@@ -0,0 +1,141 @@
+// Token gifts between players without a server. A transfer code carries the
+// token, a random nonce and the sender's public key, signed with the
+// sender's private key so the token cannot be edited in transit. Redeemed
+// nonces are recorded per device (see SaveStore.claimTransfer), so a code
+// works once per device; stopping a code from being redeemed on two
+// different devices would need a server.
+
+import { fromBase64Url, toBase64Url } from "./base64Url.ts";
+import { isToken, type Token } from "./crafting.ts";
+
+// URL fragment prefix used when a transfer code is embedded in a link
+export const TRANSFER_CODE_FRAGMENT = "#gift=";
+
+const TRANSFER_VERSION = 1;
+const KEY_ALGORITHM = { name: "ECDSA", namedCurve: "P-256" };
+const SIGNATURE_ALGORITHM = { name: "ECDSA", hash: "SHA-256" };
+
+export interface Transfer {
+  version: typeof TRANSFER_VERSION;
+  token: Token;
+  // Random ID of this transfer, recorded when it is sent or redeemed
+  nonce: string;
+  // Sender's public key, raw and base64url encoded
+  sender: string;
+  sentAt: number;
+}
+
+export class TransferError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TransferError";
+  }
+}
+
+// Key pair that signs this device's transfers. The private key cannot be
+// exported, but the pair can still be kept in IndexedDB.
+export function generateSigningKeys(): Promise<CryptoKeyPair> {
+  return crypto.subtle.generateKey(KEY_ALGORITHM, false, ["sign", "verify"]);
+}
+
+// Short, readable ID of a sender's key for players to compare
+export async function senderFingerprint(sender: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", fromBase64Url(sender));
+  return Array.from(
+    new Uint8Array(digest).slice(0, 4),
+    (byte) => byte.toString(16).padStart(2, "0"),
+  ).join("");
+}
+
+// === Encoding ===
+
+// Code format: base64url(JSON transfer) "." base64url(signature)
+export async function createTransferCode(
+  token: Token,
+  keys: CryptoKeyPair,
+): Promise<{ code: string; transfer: Transfer }> {
+  const publicKey = await crypto.subtle.exportKey("raw", keys.publicKey);
+  const transfer: Transfer = {
+    version: TRANSFER_VERSION,
+    token: { value: token.value, element: token.element },
+    nonce: crypto.randomUUID(),
+    sender: toBase64Url(new Uint8Array(publicKey)),
+    sentAt: Date.now(),
+  };
+  const payload = new TextEncoder().encode(JSON.stringify(transfer));
+  const signature = await crypto.subtle.sign(
+    SIGNATURE_ALGORITHM,
+    keys.privateKey,
+    payload,
+  );
+  return {
+    code: `${toBase64Url(payload)}.${toBase64Url(new Uint8Array(signature))}`,
+    transfer,
+  };
+}
+
+function validateTransfer(value: unknown): Transfer {
+  const transfer = value as Partial<Transfer> | null;
+  if (typeof transfer !== "object" || transfer === null) {
+    throw new TransferError("Transfer code is not readable");
+  }
+  if (transfer.version !== TRANSFER_VERSION) {
+    throw new TransferError(
+      `Unsupported transfer code version: ${transfer.version}`,
+    );
+  }
+  if (
+    !isToken(transfer.token) || typeof transfer.nonce !== "string" ||
+    typeof transfer.sender !== "string" ||
+    typeof transfer.sentAt !== "number"
+  ) {
+    throw new TransferError("Transfer code is incomplete");
+  }
+  return transfer as Transfer;
+}
+
+// Accepts a bare transfer code or a full link containing one, and checks it
+// was signed by the key it names
+export async function readTransferCode(code: string): Promise<Transfer> {
+  const fragmentStart = code.indexOf(TRANSFER_CODE_FRAGMENT);
+  if (fragmentStart !== -1) {
+    code = code.slice(fragmentStart + TRANSFER_CODE_FRAGMENT.length);
+  }
+  const [payloadText, signatureText, ...rest] = code.trim().split(".");
+  if (!payloadText || !signatureText || rest.length > 0) {
+    throw new TransferError("Transfer code is not readable");
+  }
+
+  let payload: Uint8Array<ArrayBuffer>;
+  let transfer: Transfer;
+  try {
+    payload = fromBase64Url(payloadText);
+    transfer = validateTransfer(JSON.parse(new TextDecoder().decode(payload)));
+  } catch (error) {
+    if (error instanceof TransferError) throw error;
+    throw new TransferError("Transfer code is not readable");
+  }
+
+  let valid: boolean;
+  try {
+    const senderKey = await crypto.subtle.importKey(
+      "raw",
+      fromBase64Url(transfer.sender),
+      KEY_ALGORITHM,
+      false,
+      ["verify"],
+    );
+    valid = await crypto.subtle.verify(
+      SIGNATURE_ALGORITHM,
+      senderKey,
+      fromBase64Url(signatureText),
+      payload,
+    );
+  } catch {
+    valid = false;
+  }
+  if (!valid) {
+    throw new TransferError("Transfer code has been altered or is damaged");
+  }
+  return transfer;
+}
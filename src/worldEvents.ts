@@ -0,0 +1,56 @@
+// Scheduled world events that repeat every day at the same UTC hours, such
+// as a double-spawn hour. Times are milliseconds since the Unix epoch.
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export interface WorldEvent {
+  name: string;
+  startHourUTC: number;
+  durationHours: number;
+  // Extra spawn rolls for empty, unmodified cells while the event runs
+  extraRolls: number;
+}
+
+// One day's run of an event
+export interface EventOccurrence {
+  event: WorldEvent;
+  start: number;
+  end: number;
+}
+
+// Runs of an event that start yesterday, today or tomorrow (UTC); enough to
+// cover any time today, as an event lasts at most a day
+function nearbyOccurrences(event: WorldEvent, time: number): EventOccurrence[] {
+  const today = Math.floor(time / DAY_MS) * DAY_MS;
+  return [-1, 0, 1].map((days) => {
+    const start = today + days * DAY_MS + event.startHourUTC * HOUR_MS;
+    return { event, start, end: start + event.durationHours * HOUR_MS };
+  });
+}
+
+export function activeOccurrences(
+  events: readonly WorldEvent[],
+  time: number,
+): EventOccurrence[] {
+  return events.flatMap((event) =>
+    nearbyOccurrences(event, time).filter(({ start, end }) =>
+      start <= time && time < end
+    )
+  );
+}
+
+// Next time any event starts or ends, so cells know when to look again
+export function nextEventBoundary(
+  events: readonly WorldEvent[],
+  time: number,
+): number {
+  let next = Infinity;
+  for (const event of events) {
+    for (const { start, end } of nearbyOccurrences(event, time)) {
+      if (start > time) next = Math.min(next, start);
+      if (end > time) next = Math.min(next, end);
+    }
+  }
+  return next;
+}
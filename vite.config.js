@@ -9,5 +9,17 @@ export default {
     target: "baseline-widely-available",
     outDir: "dist",
     sourcemap: true,
+    rollupOptions: {
+      // The service worker is its own entry, at a fixed name beside
+      // index.html so its scope covers the whole app
+      input: {
+        main: "index.html",
+        sw: "src/serviceWorker.ts",
+      },
+      output: {
+        entryFileNames: (chunk) =>
+          chunk.name === "sw" ? "sw.js" : "assets/[name]-[hash].js",
+      },
+    },
   },
 };